@@ -1,12 +1,252 @@
-import { requestUrl } from 'obsidian';
+import { requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
 import {
   Article,
   OpenAlexWork,
   OpenAlexResponse,
   CrossRefWork,
   CrossRefResponse,
+  CrossRefJournalResponse,
+  BiorxivPreprint,
+  BiorxivResponse,
+  PubMedSearchResponse,
+  NlmCatalogSummaryResponse,
+  SemanticScholarPaper,
+  SemanticScholarSearchResponse,
   JournalConfig,
+  JournalFetchResult,
+  JournalMonitorSettings,
+  ProviderId,
+  PROVIDER_NAMES,
 } from './types';
+import { isDoi } from './utils';
+
+/**
+ * Options for fetching recent articles from a single journal or feed
+ */
+export interface FetchOptions {
+  fromDate: string;
+  toDate: string;
+  // Last successful fetch; providers ask for works added since then instead of the date window
+  since?: string;
+  pageSize: number;
+  maxArticles: number;
+}
+
+/**
+ * Options for keyword searches
+ */
+export interface SearchOptions {
+  journals: JournalConfig[];
+  fromDate: string;
+  toDate: string;
+  limit: number;
+}
+
+/**
+ * A source of article metadata (OpenAlex, CrossRef, preprint servers, ...)
+ */
+export interface ArticleProvider {
+  id: ProviderId;
+  name: string;
+  // What `lookupSource` expects, shown when adding a journal
+  sourceLabel: string;
+  fetchJournal(journal: JournalConfig, options: FetchOptions): Promise<JournalFetchResult>;
+  search(query: string, options: SearchOptions): Promise<Article[]>;
+  lookupSource(identifier: string): Promise<JournalConfig | null>;
+  fetchByDoi(doi: string): Promise<Article | null>;
+}
+
+// ==================== Request wrapper ====================
+
+/**
+ * Failure categories for API requests
+ */
+export type ApiErrorKind = 'network' | 'rate-limited' | 'server' | 'not-found' | 'http' | 'parse';
+
+/**
+ * Error raised by the API layer once retries are exhausted
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: ApiErrorKind,
+    public readonly status?: number,
+    public readonly url?: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Normalise anything thrown while fetching into an ApiError
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  if (error instanceof SyntaxError) return new ApiError(`Invalid response: ${error.message}`, 'parse');
+  return new ApiError(error instanceof Error ? error.message : String(error), 'network');
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof ApiError && error.kind === 'not-found';
+}
+
+interface HostLimit {
+  maxConcurrent: number;
+  minIntervalMs: number;
+}
+
+// Per-host limits. OpenAlex's polite pool allows ~10 req/s; CrossRef asks polite clients
+// to keep concurrency low; arXiv wants 3 s between calls; NCBI allows 3 req/s without a key.
+const HOST_LIMITS: Record<string, HostLimit> = {
+  'api.openalex.org': { maxConcurrent: 5, minIntervalMs: 110 },
+  'api.crossref.org': { maxConcurrent: 3, minIntervalMs: 100 },
+  'eutils.ncbi.nlm.nih.gov': { maxConcurrent: 1, minIntervalMs: 350 },
+  'export.arxiv.org': { maxConcurrent: 1, minIntervalMs: 3000 },
+  'api.semanticscholar.org': { maxConcurrent: 1, minIntervalMs: 1100 },
+  'api.biorxiv.org': { maxConcurrent: 2, minIntervalMs: 200 },
+};
+
+const DEFAULT_HOST_LIMIT: HostLimit = { maxConcurrent: 4, minIntervalMs: 0 };
+
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+// Give up instead of sleeping when a server asks us to come back later than this
+const MAX_RETRY_AFTER_MS = 120000;
+
+/**
+ * Concurrency and spacing gate for requests to a single host
+ */
+class HostThrottle {
+  private active = 0;
+  private nextStart = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private limit: HostLimit) {}
+
+  async run<T>(task: () => Promise<T>, minIntervalMs: number = this.limit.minIntervalMs): Promise<T> {
+    await this.acquire();
+    try {
+      const wait = Math.max(0, this.nextStart - Date.now());
+      this.nextStart = Math.max(Date.now(), this.nextStart) + minIntervalMs;
+      if (wait > 0) await delay(wait);
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Hold back every request to this host, e.g. after a 429
+   */
+  pause(ms: number) {
+    this.nextStart = Math.max(this.nextStart, Date.now() + ms);
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.limit.maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.push(() => {
+      this.active++;
+      resolve();
+    }));
+  }
+
+  private release() {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+}
+
+const throttles = new Map<string, HostThrottle>();
+
+function getThrottle(host: string): HostThrottle {
+  let throttle = throttles.get(host);
+  if (!throttle) {
+    throttle = new HostThrottle(HOST_LIMITS[host] || DEFAULT_HOST_LIMIT);
+    throttles.set(host, throttle);
+  }
+  return throttle;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(headers: Record<string, string>): number | undefined {
+  const key = Object.keys(headers || {}).find(k => k.toLowerCase() === 'retry-after');
+  const value = key ? headers[key] : undefined;
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function backoffMs(attempt: number): number {
+  const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return exponential / 2 + Math.random() * exponential / 2;
+}
+
+function errorKindForStatus(status: number): ApiErrorKind {
+  if (status === 429) return 'rate-limited';
+  if (status === 404) return 'not-found';
+  if (status >= 500) return 'server';
+  return 'http';
+}
+
+export interface RequestOptions {
+  maxRetries?: number;
+  // Overrides the host's spacing between requests (e.g. NCBI with an API key)
+  minIntervalMs?: number;
+}
+
+/**
+ * Shared wrapper around `requestUrl`: throttles per host, retries network errors,
+ * 429 and 5xx responses with exponential backoff (honouring Retry-After), and
+ * throws an ApiError for anything that still fails.
+ */
+export async function apiRequest(params: RequestUrlParam, options: RequestOptions = {}): Promise<RequestUrlResponse> {
+  const throttle = getThrottle(new URL(params.url).hostname);
+  const maxRetries = options.maxRetries ?? MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: RequestUrlResponse;
+
+    try {
+      response = await throttle.run(() => requestUrl({ ...params, throw: false }), options.minIntervalMs);
+    } catch (error) {
+      // Offline, DNS or TLS failure
+      if (attempt < maxRetries) {
+        await delay(backoffMs(attempt));
+        continue;
+      }
+      throw new ApiError(`Network error: ${error instanceof Error ? error.message : String(error)}`, 'network', undefined, params.url);
+    }
+
+    if (response.status >= 200 && response.status < 300) {
+      return response;
+    }
+
+    const kind = errorKindForStatus(response.status);
+    const retryable = kind === 'rate-limited' || kind === 'server';
+    const retryAfter = parseRetryAfter(response.headers);
+
+    if (!retryable || attempt >= maxRetries || (retryAfter !== undefined && retryAfter > MAX_RETRY_AFTER_MS)) {
+      throw new ApiError(`HTTP ${response.status} from ${new URL(params.url).hostname}`, kind, response.status, params.url);
+    }
+
+    const wait = retryAfter ?? backoffMs(attempt);
+    if (kind === 'rate-limited') {
+      throttle.pause(wait);
+    }
+    await delay(wait);
+  }
+}
 
 /**
  * Fetch abstract from CrossRef for a single DOI.
@@ -15,7 +255,7 @@ import {
 async function fetchAbstractFromCrossRef(doi: string): Promise<string | undefined> {
   try {
     const url = `https://api.crossref.org/works/${encodeURIComponent(doi)}`;
-    const response = await requestUrl({
+    const response = await apiRequest({
       url,
       method: 'GET',
       headers: { 'Accept': 'application/json' },
@@ -41,19 +281,17 @@ async function fetchAbstractFromCrossRef(doi: string): Promise<string | undefine
  * Only queries CrossRef for articles that are missing abstracts.
  */
 export async function backfillAbstracts(articles: Article[]): Promise<number> {
-  const missing = articles.filter(a => !a.abstract);
+  const missing = articles.filter(a => !a.abstract && isDoi(a.doi));
   if (missing.length === 0) return 0;
   
   let filled = 0;
-  // Process in small batches to avoid rate limiting
+  // Sequential; apiRequest spaces requests to CrossRef
   for (const article of missing) {
     const abstract = await fetchAbstractFromCrossRef(article.doi);
     if (abstract) {
       article.abstract = abstract;
       filled++;
     }
-    // Small delay between requests to be polite to CrossRef
-    await new Promise(resolve => setTimeout(resolve, 100));
   }
   return filled;
 }
@@ -192,109 +430,173 @@ function crossRefToArticle(work: CrossRefWork, journalName: string, journalIssn:
 }
 
 /**
- * Fetch articles from OpenAlex API
+ * Fetch articles from OpenAlex API.
+ * Follows `next_cursor` until the window is exhausted or `maxArticles` is reached.
+ * When `since` is given, asks for works created in OpenAlex since then instead of
+ * filtering on publication date, so late-indexed papers are still picked up. Those come
+ * oldest first, so a truncated fetch can resume from the last one (`resumeFrom`).
  */
 export async function fetchFromOpenAlex(
   journal: JournalConfig,
-  fromDate: string,
-  toDate: string,
-  perPage: number = 50,
+  options: FetchOptions,
   email?: string
-): Promise<Article[]> {
+): Promise<JournalFetchResult> {
+  const { fromDate, toDate, since, pageSize, maxArticles } = options;
   const issn = journal.issnElectronic || journal.issn;
   
   // Build filter
-  const filters = [
-    `primary_location.source.issn:${issn}`,
-    `publication_date:>${fromDate}`,
-    `publication_date:<${toDate}`,
-  ];
-  
-  const params = new URLSearchParams({
-    filter: filters.join(','),
-    sort: 'publication_date:desc',
-    'per-page': String(perPage),
-  });
-  
-  if (email) {
-    params.set('mailto', email);
+  const filters = [`primary_location.source.issn:${issn}`];
+  if (since) {
+    filters.push(`from_created_date:${since.split('T')[0]}`);
+  } else {
+    filters.push(`publication_date:>${fromDate}`, `publication_date:<${toDate}`);
   }
   
-  const url = `https://api.openalex.org/works?${params.toString()}`;
+  const articles: Article[] = [];
+  let total = 0;
+  let seen = 0;
+  let failure: ApiError | undefined;
+  let lastCreated: string | undefined;
+  let cursor: string | null | undefined = '*';
   
   try {
-    const response = await requestUrl({
-      url,
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-    
-    const data = response.json as OpenAlexResponse;
-    
-    if (!data || !Array.isArray(data.results)) {
-      console.warn(`OpenAlex returned unexpected data format for ${journal.name}`);
-      return [];
+    while (cursor && articles.length < maxArticles) {
+      const params = new URLSearchParams({
+        filter: filters.join(','),
+        sort: since ? 'created_date' : 'publication_date:desc',
+        // OpenAlex caps per-page at 200
+        'per-page': String(Math.min(pageSize, 200, maxArticles - articles.length)),
+        cursor,
+      });
+      
+      if (email) {
+        params.set('mailto', email);
+      }
+      
+      const url = `https://api.openalex.org/works?${params.toString()}`;
+      
+      const response = await apiRequest({
+        url,
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+        },
+      });
+      
+      const data = response.json as OpenAlexResponse;
+      
+      if (!data || !Array.isArray(data.results)) {
+        throw new ApiError(`OpenAlex returned unexpected data format for ${journal.name}`, 'parse');
+      }
+      
+      total = data.meta?.count ?? total;
+      seen += data.results.length;
+      
+      for (const work of data.results) {
+        const article = openAlexToArticle(work, journal.name, journal.issn);
+        if (article) articles.push(article);
+        lastCreated = work.created_date || lastCreated;
+      }
+      
+      if (data.results.length === 0) break;
+      cursor = data.meta?.next_cursor;
     }
-    
-    return data.results
-      .map(work => openAlexToArticle(work, journal.name, journal.issn))
-      .filter((a): a is Article => a !== null);
   } catch (error) {
     console.error(`OpenAlex fetch error for ${journal.name}:`, error);
-    return [];
+    failure = toApiError(error);
   }
+  
+  const truncated = seen < total;
+  return {
+    articles: articles.slice(0, maxArticles),
+    total: Math.max(total, seen),
+    truncated,
+    resumeFrom: since && truncated ? lastCreated : undefined,
+    error: failure,
+  };
 }
 
 /**
- * Fetch articles from CrossRef API
+ * Fetch articles from CrossRef API.
+ * Uses CrossRef deep paging (`cursor`) until the window is exhausted or `maxArticles` is reached.
+ * When `since` is given, asks for works indexed since then (`from-index-date`), oldest
+ * first, so a truncated fetch can resume from the last one (`resumeFrom`).
  */
 export async function fetchFromCrossRef(
   journal: JournalConfig,
-  fromDate: string,
-  toDate: string,
-  rows: number = 50,
+  options: FetchOptions,
   email?: string
-): Promise<Article[]> {
+): Promise<JournalFetchResult> {
+  const { fromDate, toDate, since, pageSize, maxArticles } = options;
   const issn = journal.issnElectronic || journal.issn;
+  const filter = since
+    ? `from-index-date:${since.split('T')[0]}`
+    : `from-pub-date:${fromDate},until-pub-date:${toDate}`;
   
-  const params = new URLSearchParams({
-    'filter': `from-pub-date:${fromDate},until-pub-date:${toDate}`,
-    'sort': 'published',
-    'order': 'desc',
-    'rows': String(rows),
-  });
-  
-  if (email) {
-    params.set('mailto', email);
-  }
-  
-  const url = `https://api.crossref.org/journals/${issn}/works?${params.toString()}`;
+  const articles: Article[] = [];
+  let total = 0;
+  let seen = 0;
+  let failure: ApiError | undefined;
+  let lastIndexed: string | undefined;
+  let cursor: string | undefined = '*';
   
   try {
-    const response = await requestUrl({
-      url,
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-    
-    const data = response.json as CrossRefResponse;
-    
-    if (!data || !data.message || !Array.isArray(data.message.items)) {
-      console.warn(`CrossRef returned unexpected data format for ${journal.name}`);
-      return [];
+    while (cursor && articles.length < maxArticles) {
+      const params = new URLSearchParams({
+        'filter': filter,
+        'sort': since ? 'indexed' : 'published',
+        'order': since ? 'asc' : 'desc',
+        // CrossRef caps rows at 1000
+        'rows': String(Math.min(pageSize, 1000, maxArticles - articles.length)),
+        'cursor': cursor,
+      });
+      
+      if (email) {
+        params.set('mailto', email);
+      }
+      
+      const url = `https://api.crossref.org/journals/${issn}/works?${params.toString()}`;
+      
+      const response = await apiRequest({
+        url,
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+        },
+      });
+      
+      const data = response.json as CrossRefResponse;
+      
+      if (!data || !data.message || !Array.isArray(data.message.items)) {
+        throw new ApiError(`CrossRef returned unexpected data format for ${journal.name}`, 'parse');
+      }
+      
+      total = data.message['total-results'] ?? total;
+      seen += data.message.items.length;
+      
+      for (const work of data.message.items) {
+        const article = crossRefToArticle(work, journal.name, journal.issn);
+        if (article) articles.push(article);
+        lastIndexed = work.indexed?.['date-time'] || lastIndexed;
+      }
+      
+      // CrossRef keeps returning a cursor after the last page; an empty page ends the loop
+      if (data.message.items.length === 0) break;
+      cursor = data.message['next-cursor'];
     }
-    
-    return data.message.items
-      .map(work => crossRefToArticle(work, journal.name, journal.issn))
-      .filter((a): a is Article => a !== null);
   } catch (error) {
     console.error(`CrossRef fetch error for ${journal.name}:`, error);
-    return [];
+    failure = toApiError(error);
   }
+  
+  const truncated = seen < total;
+  return {
+    articles: articles.slice(0, maxArticles),
+    total: Math.max(total, seen),
+    truncated,
+    resumeFrom: since && truncated ? lastIndexed : undefined,
+    error: failure,
+  };
 }
 
 /**
@@ -331,7 +633,7 @@ export async function searchOpenAlex(
   const url = `https://api.openalex.org/works?${params.toString()}`;
   
   try {
-    const response = await requestUrl({
+    const response = await apiRequest({
       url,
       method: 'GET',
       headers: {
@@ -351,7 +653,7 @@ export async function searchOpenAlex(
       .filter((a): a is Article => a !== null);
   } catch (error) {
     console.error('OpenAlex search error:', error);
-    return [];
+    throw toApiError(error);
   }
 }
 
@@ -362,7 +664,7 @@ export async function lookupJournalByIssn(issn: string): Promise<JournalConfig |
   const url = `https://api.openalex.org/sources/issn:${issn}`;
   
   try {
-    const response = await requestUrl({
+    const response = await apiRequest({
       url,
       method: 'GET',
       headers: {
@@ -384,11 +686,1291 @@ export async function lookupJournalByIssn(issn: string): Promise<JournalConfig |
     
     return null;
   } catch (error) {
+    if (isNotFound(error)) return null;
     console.error('Journal lookup error:', error);
-    return null;
+    throw toApiError(error);
+  }
+}
+
+/**
+ * Fetch a single work from OpenAlex by DOI
+ */
+export async function fetchOpenAlexByDoi(doi: string, email?: string): Promise<Article | null> {
+  const params = new URLSearchParams();
+  if (email) {
+    params.set('mailto', email);
+  }
+
+  const url = `https://api.openalex.org/works/doi:${encodeURIComponent(doi)}?${params.toString()}`;
+
+  try {
+    const response = await apiRequest({
+      url,
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+      },
+    });
+
+    const work = response.json as OpenAlexWork;
+    const source = work?.primary_location?.source;
+    return openAlexToArticle(
+      work,
+      source?.display_name || 'Unknown Journal',
+      source?.issn_l || source?.issn?.[0] || ''
+    );
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    console.error(`OpenAlex lookup error for ${doi}:`, error);
+    throw toApiError(error);
+  }
+}
+
+/**
+ * Search CrossRef for articles by keyword
+ */
+export async function searchCrossRef(
+  query: string,
+  issns: string[],
+  fromDate: string,
+  toDate: string,
+  rows: number = 25,
+  email?: string
+): Promise<Article[]> {
+  const filters = [
+    `from-pub-date:${fromDate}`,
+    `until-pub-date:${toDate}`,
+    'type:journal-article',
+    ...issns.map(issn => `issn:${issn}`),
+  ];
+
+  const params = new URLSearchParams({
+    'query.bibliographic': query,
+    'filter': filters.join(','),
+    'rows': String(Math.min(rows, 1000)),
+  });
+
+  if (email) {
+    params.set('mailto', email);
+  }
+
+  const url = `https://api.crossref.org/works?${params.toString()}`;
+
+  try {
+    const response = await apiRequest({
+      url,
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+      },
+    });
+
+    const data = response.json as CrossRefResponse;
+
+    return data.message.items
+      .map(work => crossRefToArticle(
+        work,
+        work['container-title']?.[0] || 'Unknown Journal',
+        work.ISSN?.[0] || ''
+      ))
+      .filter((a): a is Article => a !== null);
+  } catch (error) {
+    console.error('CrossRef search error:', error);
+    throw toApiError(error);
+  }
+}
+
+/**
+ * Lookup journal info by ISSN from CrossRef
+ */
+export async function lookupCrossRefJournal(issn: string, email?: string): Promise<JournalConfig | null> {
+  const params = new URLSearchParams();
+  if (email) {
+    params.set('mailto', email);
+  }
+
+  const url = `https://api.crossref.org/journals/${encodeURIComponent(issn)}?${params.toString()}`;
+
+  try {
+    const response = await apiRequest({
+      url,
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+      },
+    });
+
+    const data = response.json as CrossRefJournalResponse;
+    if (!data?.message?.title) return null;
+
+    const issnTypes = data.message['issn-type'] || [];
+    return {
+      name: data.message.title,
+      issn: issnTypes.find(i => i.type === 'print')?.value || issn,
+      issnElectronic: issnTypes.find(i => i.type === 'electronic')?.value,
+      publisher: data.message.publisher || 'Unknown',
+      enabled: true,
+    };
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    console.error('CrossRef journal lookup error:', error);
+    throw toApiError(error);
+  }
+}
+
+/**
+ * Fetch a single work from CrossRef by DOI
+ */
+export async function fetchCrossRefByDoi(doi: string, email?: string): Promise<Article | null> {
+  const params = new URLSearchParams();
+  if (email) {
+    params.set('mailto', email);
+  }
+
+  const url = `https://api.crossref.org/works/${encodeURIComponent(doi)}?${params.toString()}`;
+
+  try {
+    const response = await apiRequest({
+      url,
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+      },
+    });
+
+    const work = response.json?.message as CrossRefWork | undefined;
+    if (!work) return null;
+
+    return crossRefToArticle(work, work['container-title']?.[0] || 'Unknown Journal', work.ISSN?.[0] || '');
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    console.error(`CrossRef lookup error for ${doi}:`, error);
+    throw toApiError(error);
   }
 }
 
+// ==================== XML helpers ====================
+
+/**
+ * Parse an XML response body
+ */
+export function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, 'text/xml');
+}
+
+/**
+ * Direct children of an element with the given local name, ignoring namespaces
+ */
+export function xmlChildren(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(el => el.localName === localName);
+}
+
+/**
+ * Collapsed text of the first direct child with the given local name
+ */
+export function xmlChildText(parent: Element, localName: string): string | undefined {
+  const el = xmlChildren(parent, localName)[0];
+  const text = el?.textContent?.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+/**
+ * Collapsed text of the first descendant with the given local name
+ */
+function xmlFindText(parent: Element | Document, localName: string): string | undefined {
+  const el = parent.getElementsByTagNameNS('*', localName)[0];
+  const text = el?.textContent?.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function compactDate(date: string): string {
+  return date.split('T')[0].replace(/-/g, '');
+}
+
+// ==================== arXiv ====================
+
+const ARXIV_API = 'https://export.arxiv.org/api/query';
+
+/**
+ * Convert an arXiv Atom entry to Article.
+ * Uses the journal DOI when the authors supplied one, otherwise the arXiv DataCite DOI.
+ */
+function arxivEntryToArticle(entry: Element, journalName: string, journalIssn: string): Article | null {
+  const idUrl = xmlChildText(entry, 'id');
+  if (!idUrl) return null;
+
+  const arxivId = idUrl.replace(/^https?:\/\/arxiv\.org\/abs\//, '').replace(/v\d+$/, '');
+  const doi = xmlChildText(entry, 'doi') || `10.48550/arXiv.${arxivId}`;
+  const published = xmlChildText(entry, 'published') || new Date().toISOString();
+  const date = published.split('T')[0];
+
+  return {
+    doi,
+    title: xmlChildText(entry, 'title') || 'Untitled',
+    authors: xmlChildren(entry, 'author')
+      .map(author => xmlChildText(author, 'name'))
+      .filter((name): name is string => !!name),
+    journal: journalName,
+    journalIssn,
+    date,
+    year: parseInt(date.substring(0, 4), 10),
+    abstract: xmlChildText(entry, 'summary'),
+    keywords: xmlChildren(entry, 'category')
+      .map(cat => cat.getAttribute('term'))
+      .filter((term): term is string => !!term),
+    url: `https://arxiv.org/abs/${arxivId}`,
+    openAccessUrl: `https://arxiv.org/pdf/${arxivId}`,
+    state: 'unseen',
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Run an arXiv API query and parse the Atom response
+ */
+async function queryArxiv(
+  params: Record<string, string>,
+  journalName: string,
+  journalIssn: string
+): Promise<{ articles: Article[]; total: number; count: number }> {
+  const url = `${ARXIV_API}?${new URLSearchParams(params).toString()}`;
+  const response = await apiRequest({ url, method: 'GET' });
+  const doc = parseXml(response.text);
+  const entries = Array.from(doc.getElementsByTagNameNS('*', 'entry'));
+
+  return {
+    articles: entries
+      .map(entry => arxivEntryToArticle(entry, journalName, journalIssn))
+      .filter((a): a is Article => a !== null),
+    total: parseInt(xmlFindText(doc, 'totalResults') || '0', 10),
+    count: entries.length,
+  };
+}
+
+/**
+ * Fetch new submissions in an arXiv category (e.g. `physics.geo-ph`)
+ */
+export async function fetchFromArxiv(journal: JournalConfig, options: FetchOptions): Promise<JournalFetchResult> {
+  const category = journal.sourceQuery || journal.issn.replace(/^arxiv:/, '');
+  const from = compactDate(options.since || options.fromDate);
+  const to = compactDate(options.toDate);
+
+  const articles: Article[] = [];
+  let total = 0;
+  let failure: ApiError | undefined;
+  let start = 0;
+
+  try {
+    while (articles.length < options.maxArticles) {
+      const page = await queryArxiv({
+        search_query: `cat:${category} AND submittedDate:[${from}0000 TO ${to}2359]`,
+        sortBy: 'submittedDate',
+        sortOrder: 'descending',
+        start: String(start),
+        max_results: String(Math.min(options.pageSize, 2000, options.maxArticles - articles.length)),
+      }, journal.name, journal.issn);
+
+      total = page.total;
+      articles.push(...page.articles);
+      start += page.count;
+
+      if (page.count === 0 || start >= total) break;
+    }
+  } catch (error) {
+    console.error(`arXiv fetch error for ${journal.name}:`, error);
+    failure = toApiError(error);
+  }
+
+  return { articles: articles.slice(0, options.maxArticles), total: Math.max(total, start), truncated: start < total, error: failure };
+}
+
+/**
+ * Search arXiv by keyword. Journal restrictions do not apply to preprints.
+ */
+export async function searchArxiv(query: string, options: SearchOptions): Promise<Article[]> {
+  const terms = query.split(/\s+/).filter(t => t).map(t => `all:${t}`).join(' AND ');
+
+  try {
+    const page = await queryArxiv({
+      search_query: `${terms} AND submittedDate:[${compactDate(options.fromDate)}0000 TO ${compactDate(options.toDate)}2359]`,
+      sortBy: 'submittedDate',
+      sortOrder: 'descending',
+      max_results: String(options.limit),
+    }, 'arXiv', '');
+    return page.articles;
+  } catch (error) {
+    console.error('arXiv search error:', error);
+    throw toApiError(error);
+  }
+}
+
+/**
+ * Validate an arXiv category and build a feed configuration for it
+ */
+export async function lookupArxivCategory(category: string): Promise<JournalConfig | null> {
+  try {
+    const page = await queryArxiv({ search_query: `cat:${category}`, max_results: '1' }, '', '');
+    if (page.total === 0) return null;
+
+    return {
+      name: `arXiv ${category}`,
+      issn: `arxiv:${category}`,
+      publisher: 'arXiv',
+      enabled: true,
+      provider: 'arxiv',
+      sourceQuery: category,
+    };
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    console.error('arXiv category lookup error:', error);
+    throw toApiError(error);
+  }
+}
+
+/**
+ * Fetch an arXiv preprint by its DataCite DOI (10.48550/arXiv.*)
+ */
+export async function fetchArxivByDoi(doi: string): Promise<Article | null> {
+  const match = doi.match(/^10\.48550\/arxiv\.(.+)$/i);
+  if (!match) return null;
+
+  try {
+    const page = await queryArxiv({ id_list: match[1] }, 'arXiv', '');
+    return page.articles[0] || null;
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    console.error(`arXiv lookup error for ${doi}:`, error);
+    throw toApiError(error);
+  }
+}
+
+// ==================== bioRxiv / medRxiv ====================
+
+type PreprintServer = 'biorxiv' | 'medrxiv';
+
+/**
+ * Convert a bioRxiv/medRxiv record to Article
+ */
+function biorxivToArticle(
+  preprint: BiorxivPreprint,
+  server: PreprintServer,
+  journalName: string,
+  journalIssn: string
+): Article | null {
+  if (!preprint.doi) return null;
+
+  const date = preprint.date || new Date().toISOString().split('T')[0];
+
+  return {
+    doi: preprint.doi,
+    title: preprint.title?.trim() || 'Untitled',
+    authors: (preprint.authors || '')
+      .split(';')
+      .map(a => a.trim())
+      .filter(a => a),
+    journal: journalName,
+    journalIssn,
+    date,
+    year: parseInt(date.substring(0, 4), 10),
+    abstract: preprint.abstract?.trim() || undefined,
+    keywords: preprint.category ? [preprint.category] : [],
+    url: `https://doi.org/${preprint.doi}`,
+    openAccessUrl: `https://www.${server}.org/content/${preprint.doi}v${preprint.version}.full.pdf`,
+    state: 'unseen',
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Fetch preprints posted to a bioRxiv/medRxiv subject category.
+ * The API pages in fixed blocks of 100 and lists every version, so only the latest version is kept.
+ */
+export async function fetchFromBiorxiv(
+  server: PreprintServer,
+  journal: JournalConfig,
+  options: FetchOptions
+): Promise<JournalFetchResult> {
+  const category = journal.sourceQuery || journal.issn.replace(/^(bio|med)rxiv:/, '');
+  const from = (options.since || options.fromDate).split('T')[0];
+
+  const byDoi = new Map<string, Article>();
+  let total = 0;
+  let failure: ApiError | undefined;
+  let cursor = 0;
+
+  try {
+    while (byDoi.size < options.maxArticles) {
+      const params = new URLSearchParams({ category: category.toLowerCase().replace(/\s+/g, '_') });
+      const url = `https://api.biorxiv.org/details/${server}/${from}/${options.toDate}/${cursor}?${params.toString()}`;
+
+      const response = await apiRequest({
+        url,
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+        },
+      });
+
+      const data = response.json as BiorxivResponse;
+
+      if (!data || !Array.isArray(data.collection)) {
+        throw new ApiError(`${PROVIDER_NAMES[server]} returned unexpected data format for ${journal.name}`, 'parse');
+      }
+
+      total = Number(data.messages?.[0]?.total ?? total);
+
+      for (const preprint of data.collection) {
+        const article = biorxivToArticle(preprint, server, journal.name, journal.issn);
+        if (article) byDoi.set(article.doi, article);
+      }
+
+      cursor += data.collection.length;
+      if (data.collection.length === 0 || cursor >= total) break;
+    }
+  } catch (error) {
+    console.error(`${PROVIDER_NAMES[server]} fetch error for ${journal.name}:`, error);
+    failure = toApiError(error);
+  }
+
+  const articles = Array.from(byDoi.values())
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, options.maxArticles);
+
+  // `total` counts versions, not papers, so it is only reported when the cap stopped paging
+  return { articles, total: cursor < total ? Math.max(total, articles.length + 1) : articles.length, truncated: cursor < total, error: failure };
+}
+
+/**
+ * Build a feed configuration for a bioRxiv/medRxiv subject category
+ */
+export async function lookupBiorxivCategory(server: PreprintServer, category: string): Promise<JournalConfig | null> {
+  const name = category.trim().toLowerCase();
+  if (!name) return null;
+
+  return {
+    name: `${PROVIDER_NAMES[server]}: ${name}`,
+    issn: `${server}:${name}`,
+    publisher: PROVIDER_NAMES[server],
+    enabled: true,
+    provider: server,
+    sourceQuery: name,
+  };
+}
+
+/**
+ * Fetch the latest version of a bioRxiv/medRxiv preprint by DOI
+ */
+export async function fetchBiorxivByDoi(server: PreprintServer, doi: string): Promise<Article | null> {
+  const url = `https://api.biorxiv.org/details/${server}/${doi}`;
+
+  try {
+    const response = await apiRequest({
+      url,
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+      },
+    });
+
+    const data = response.json as BiorxivResponse;
+    const latest = data?.collection?.[data.collection.length - 1];
+    return latest ? biorxivToArticle(latest, server, PROVIDER_NAMES[server], '') : null;
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    console.error(`${PROVIDER_NAMES[server]} lookup error for ${doi}:`, error);
+    throw toApiError(error);
+  }
+}
+
+// ==================== PubMed ====================
+
+const EUTILS_BASE = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils';
+
+const MONTHS: Record<string, string> = {
+  jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
+  jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12',
+};
+
+/**
+ * Build E-utilities query parameters with the tool/email/api_key NCBI asks for
+ */
+function eutilsParams(params: Record<string, string>, email?: string, apiKey?: string): URLSearchParams {
+  const search = new URLSearchParams({ ...params, tool: 'obsidian-journal-monitor' });
+  if (email) search.set('email', email);
+  if (apiKey) search.set('api_key', apiKey);
+  return search;
+}
+
+/**
+ * NCBI allows 3 requests/second without an API key and 10 with one
+ */
+function eutilsOptions(apiKey?: string): RequestOptions {
+  return { minIntervalMs: apiKey ? 110 : 350 };
+}
+
+/**
+ * Parse a PubMed <PubDate> or <ArticleDate> element
+ */
+function parsePubMedDate(el: Element | undefined): string | undefined {
+  if (!el) return undefined;
+
+  const year = xmlChildText(el, 'Year') || xmlChildText(el, 'MedlineDate')?.match(/\d{4}/)?.[0];
+  if (!year) return undefined;
+
+  const monthRaw = xmlChildText(el, 'Month') || '1';
+  const month = MONTHS[monthRaw.substring(0, 3).toLowerCase()] || monthRaw.padStart(2, '0');
+  const day = (xmlChildText(el, 'Day') || '1').padStart(2, '0');
+
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Convert a <PubmedArticle> element to Article
+ */
+function pubMedToArticle(el: Element, journalName?: string, journalIssn?: string): Article | null {
+  const citation = xmlChildren(el, 'MedlineCitation')[0];
+  const articleEl = citation && xmlChildren(citation, 'Article')[0];
+  if (!articleEl) return null;
+
+  const pubmedData = xmlChildren(el, 'PubmedData')[0];
+  const articleIds = pubmedData ? xmlChildren(xmlChildren(pubmedData, 'ArticleIdList')[0] || pubmedData, 'ArticleId') : [];
+  const doi = articleIds.find(id => id.getAttribute('IdType') === 'doi')?.textContent?.trim()
+    || xmlChildren(articleEl, 'ELocationID').find(id => id.getAttribute('EIdType') === 'doi')?.textContent?.trim();
+  if (!doi) return null;
+
+  const journalEl = xmlChildren(articleEl, 'Journal')[0];
+  const issueEl = journalEl && xmlChildren(journalEl, 'JournalIssue')[0];
+
+  const date = parsePubMedDate(xmlChildren(articleEl, 'ArticleDate')[0])
+    || parsePubMedDate(issueEl && xmlChildren(issueEl, 'PubDate')[0])
+    || new Date().toISOString().split('T')[0];
+
+  const abstractEl = xmlChildren(articleEl, 'Abstract')[0];
+  const abstract = abstractEl
+    ? xmlChildren(abstractEl, 'AbstractText')
+      .map(part => {
+        const label = part.getAttribute('Label');
+        const text = part.textContent?.replace(/\s+/g, ' ').trim() || '';
+        return label ? `${label}: ${text}` : text;
+      })
+      .join('\n\n')
+    : undefined;
+
+  const authorList = xmlChildren(articleEl, 'AuthorList')[0];
+  const authors = authorList
+    ? xmlChildren(authorList, 'Author').map(author => {
+      const collective = xmlChildText(author, 'CollectiveName');
+      if (collective) return collective;
+      const last = xmlChildText(author, 'LastName');
+      const fore = xmlChildText(author, 'ForeName') || xmlChildText(author, 'Initials');
+      return last && fore ? `${last}, ${fore}` : last || fore || 'Unknown';
+    })
+    : [];
+
+  const keywordList = xmlChildren(citation, 'KeywordList')[0];
+  const meshList = xmlChildren(citation, 'MeshHeadingList')[0];
+  const keywords = keywordList
+    ? xmlChildren(keywordList, 'Keyword').map(k => k.textContent?.trim() || '').filter(k => k)
+    : meshList
+      ? xmlChildren(meshList, 'MeshHeading').map(m => xmlChildText(m, 'DescriptorName') || '').filter(k => k)
+      : [];
+
+  const pagination = xmlChildren(articleEl, 'Pagination')[0];
+
+  return {
+    doi,
+    title: xmlChildText(articleEl, 'ArticleTitle') || 'Untitled',
+    authors,
+    journal: journalName || (journalEl && xmlChildText(journalEl, 'Title')) || 'Unknown Journal',
+    journalIssn: journalIssn ?? (journalEl && xmlChildText(journalEl, 'ISSN')) ?? '',
+    volume: issueEl && xmlChildText(issueEl, 'Volume'),
+    issue: issueEl && xmlChildText(issueEl, 'Issue'),
+    pages: pagination && xmlChildText(pagination, 'MedlinePgn'),
+    date,
+    year: parseInt(date.substring(0, 4), 10),
+    abstract: abstract || undefined,
+    keywords: keywords.slice(0, 8),
+    url: `https://doi.org/${doi}`,
+    state: 'unseen',
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Run an esearch query against PubMed
+ */
+async function searchPubMedIds(
+  params: Record<string, string>,
+  email?: string,
+  apiKey?: string
+): Promise<{ ids: string[]; count: number }> {
+  const search = eutilsParams({ db: 'pubmed', retmode: 'json', ...params }, email, apiKey);
+  const response = await apiRequest({
+    url: `${EUTILS_BASE}/esearch.fcgi?${search.toString()}`,
+    method: 'GET',
+    headers: {
+      'Accept': 'application/json',
+    },
+  }, eutilsOptions(apiKey));
+
+  const data = response.json as PubMedSearchResponse;
+  return {
+    ids: data?.esearchresult?.idlist || [],
+    count: parseInt(data?.esearchresult?.count || '0', 10),
+  };
+}
+
+/**
+ * Fetch full PubMed records for a list of PMIDs
+ */
+async function fetchPubMedRecords(
+  ids: string[],
+  email?: string,
+  apiKey?: string,
+  journalName?: string,
+  journalIssn?: string
+): Promise<Article[]> {
+  if (ids.length === 0) return [];
+
+  const params = eutilsParams({ db: 'pubmed', retmode: 'xml', id: ids.join(',') }, email, apiKey);
+  const response = await apiRequest({
+    url: `${EUTILS_BASE}/efetch.fcgi?${params.toString()}`,
+    method: 'GET',
+  }, eutilsOptions(apiKey));
+
+  const doc = parseXml(response.text);
+  return Array.from(doc.getElementsByTagName('PubmedArticle'))
+    .map(el => pubMedToArticle(el, journalName, journalIssn))
+    .filter((a): a is Article => a !== null);
+}
+
+/**
+ * Build an esearch term matching any of a journal's ISSNs
+ */
+function pubMedIssnTerm(journal: JournalConfig): string {
+  const issns = [journal.issn, journal.issnElectronic].filter((i, idx, all): i is string => !!i && all.indexOf(i) === idx);
+  return `(${issns.map(i => `"${i}"[is]`).join(' OR ')})`;
+}
+
+function pubMedDate(date: string): string {
+  return date.split('T')[0].replace(/-/g, '/');
+}
+
+/**
+ * Fetch recent articles for a journal from PubMed.
+ * With `since`, filters on Entrez date (when the record was added) rather than publication date.
+ */
+export async function fetchFromPubMed(
+  journal: JournalConfig,
+  options: FetchOptions,
+  email?: string,
+  apiKey?: string
+): Promise<JournalFetchResult> {
+  const dateParams = options.since
+    ? { datetype: 'edat', mindate: pubMedDate(options.since), maxdate: pubMedDate(new Date().toISOString()) }
+    : { datetype: 'pdat', mindate: pubMedDate(options.fromDate), maxdate: pubMedDate(options.toDate) };
+
+  const articles: Article[] = [];
+  let total = 0;
+  let failure: ApiError | undefined;
+  let retstart = 0;
+
+  try {
+    while (articles.length < options.maxArticles) {
+      const page = await searchPubMedIds({
+        term: pubMedIssnTerm(journal),
+        sort: 'pub_date',
+        retstart: String(retstart),
+        retmax: String(Math.min(options.pageSize, 200, options.maxArticles - articles.length)),
+        ...dateParams,
+      }, email, apiKey);
+
+      total = page.count;
+      if (page.ids.length === 0) break;
+      articles.push(...await fetchPubMedRecords(page.ids, email, apiKey, journal.name, journal.issn));
+
+      retstart += page.ids.length;
+      if (retstart >= total) break;
+    }
+  } catch (error) {
+    console.error(`PubMed fetch error for ${journal.name}:`, error);
+    failure = toApiError(error);
+  }
+
+  return { articles: articles.slice(0, options.maxArticles), total: Math.max(total, retstart), truncated: retstart < total, error: failure };
+}
+
+/**
+ * Search PubMed by keyword
+ */
+export async function searchPubMed(
+  query: string,
+  options: SearchOptions,
+  email?: string,
+  apiKey?: string
+): Promise<Article[]> {
+  const journalTerm = options.journals.length > 0
+    ? ` AND (${options.journals.map(pubMedIssnTerm).join(' OR ')})`
+    : '';
+
+  try {
+    const page = await searchPubMedIds({
+      term: `(${query})${journalTerm}`,
+      sort: 'pub_date',
+      retmax: String(options.limit),
+      datetype: 'pdat',
+      mindate: pubMedDate(options.fromDate),
+      maxdate: pubMedDate(options.toDate),
+    }, email, apiKey);
+    return await fetchPubMedRecords(page.ids, email, apiKey);
+  } catch (error) {
+    console.error('PubMed search error:', error);
+    throw toApiError(error);
+  }
+}
+
+/**
+ * Lookup journal info by ISSN in the NLM Catalog
+ */
+export async function lookupPubMedJournal(issn: string, email?: string, apiKey?: string): Promise<JournalConfig | null> {
+  try {
+    const search = eutilsParams({ db: 'nlmcatalog', retmode: 'json', term: `${issn}[issn]` }, email, apiKey);
+    const searchResponse = await apiRequest({
+      url: `${EUTILS_BASE}/esearch.fcgi?${search.toString()}`,
+      method: 'GET',
+    }, eutilsOptions(apiKey));
+
+    const uid = (searchResponse.json as PubMedSearchResponse)?.esearchresult?.idlist?.[0];
+    if (!uid) return null;
+
+    const summary = eutilsParams({ db: 'nlmcatalog', retmode: 'json', id: uid }, email, apiKey);
+    const summaryResponse = await apiRequest({
+      url: `${EUTILS_BASE}/esummary.fcgi?${summary.toString()}`,
+      method: 'GET',
+    }, eutilsOptions(apiKey));
+
+    const record = (summaryResponse.json as NlmCatalogSummaryResponse)?.result?.[uid];
+    if (!record || Array.isArray(record)) return null;
+
+    const issns = record.issnlist || [];
+    return {
+      name: record.titlemainlist?.[0]?.title.replace(/\.$/, '') || record.medlineta || issn,
+      issn: issns.find(i => i.issntype === 'Print')?.issn || issn,
+      issnElectronic: issns.find(i => i.issntype === 'Electronic')?.issn,
+      publisher: record.publicationinfolist?.[0]?.publisher || 'Unknown',
+      enabled: true,
+    };
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    console.error('PubMed journal lookup error:', error);
+    throw toApiError(error);
+  }
+}
+
+/**
+ * Fetch a single PubMed record by DOI
+ */
+export async function fetchPubMedByDoi(doi: string, email?: string, apiKey?: string): Promise<Article | null> {
+  try {
+    const page = await searchPubMedIds({ term: `${doi}[doi]`, retmax: '1' }, email, apiKey);
+    const articles = await fetchPubMedRecords(page.ids, email, apiKey);
+    return articles[0] || null;
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    console.error(`PubMed lookup error for ${doi}:`, error);
+    throw toApiError(error);
+  }
+}
+
+// ==================== Semantic Scholar ====================
+
+const S2_API = 'https://api.semanticscholar.org/graph/v1';
+
+const S2_FIELDS = 'paperId,externalIds,title,abstract,authors,venue,year,publicationDate,journal,openAccessPdf,fieldsOfStudy';
+
+function s2Headers(apiKey?: string): Record<string, string> {
+  const headers: Record<string, string> = { 'Accept': 'application/json' };
+  if (apiKey) headers['x-api-key'] = apiKey;
+  return headers;
+}
+
+/**
+ * Convert a Semantic Scholar paper to Article.
+ * Papers without a DOI are kept only if they have an arXiv id.
+ */
+function semanticScholarToArticle(paper: SemanticScholarPaper, journalName?: string, journalIssn?: string): Article | null {
+  const arxivId = paper.externalIds?.ArXiv;
+  const doi = paper.externalIds?.DOI || (arxivId ? `10.48550/arXiv.${arxivId}` : undefined);
+  if (!doi) return null;
+
+  const date = paper.publicationDate || `${paper.year || new Date().getFullYear()}-01-01`;
+
+  return {
+    doi,
+    title: paper.title || 'Untitled',
+    authors: (paper.authors || []).map(a => a.name),
+    journal: journalName || paper.journal?.name || paper.venue || 'Unknown Journal',
+    journalIssn: journalIssn || '',
+    volume: paper.journal?.volume?.trim() || undefined,
+    pages: paper.journal?.pages?.trim() || undefined,
+    date,
+    year: paper.year || parseInt(date.substring(0, 4), 10),
+    abstract: paper.abstract || undefined,
+    keywords: paper.fieldsOfStudy || [],
+    url: `https://doi.org/${doi}`,
+    openAccessUrl: paper.openAccessPdf?.url || undefined,
+    state: 'unseen',
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Fetch recent papers for a venue from Semantic Scholar bulk search.
+ * Semantic Scholar has no "indexed since" filter, so `since` narrows the publication date instead.
+ */
+export async function fetchFromSemanticScholar(
+  journal: JournalConfig,
+  options: FetchOptions,
+  apiKey?: string
+): Promise<JournalFetchResult> {
+  const venue = journal.sourceQuery || journal.name;
+  const from = (options.since || options.fromDate).split('T')[0];
+
+  const articles: Article[] = [];
+  let total = 0;
+  let seen = 0;
+  let failure: ApiError | undefined;
+  let token: string | null | undefined;
+
+  try {
+    do {
+      const params = new URLSearchParams({
+        venue,
+        publicationDateOrYear: `${from}:${options.toDate}`,
+        fields: S2_FIELDS,
+        sort: 'publicationDate:desc',
+      });
+      if (token) params.set('token', token);
+
+      const response = await apiRequest({
+        url: `${S2_API}/paper/search/bulk?${params.toString()}`,
+        method: 'GET',
+        headers: s2Headers(apiKey),
+      });
+
+      const data = response.json as SemanticScholarSearchResponse;
+
+      if (!data || !Array.isArray(data.data)) {
+        throw new ApiError(`Semantic Scholar returned unexpected data format for ${journal.name}`, 'parse');
+      }
+
+      total = data.total ?? total;
+      seen += data.data.length;
+
+      for (const paper of data.data) {
+        const article = semanticScholarToArticle(paper, journal.name, journal.issn);
+        if (article) articles.push(article);
+      }
+
+      token = data.token;
+    } while (token && articles.length < options.maxArticles);
+  } catch (error) {
+    console.error(`Semantic Scholar fetch error for ${journal.name}:`, error);
+    failure = toApiError(error);
+  }
+
+  return { articles: articles.slice(0, options.maxArticles), total: Math.max(total, seen), truncated: seen < total, error: failure };
+}
+
+/**
+ * Search Semantic Scholar by keyword
+ */
+export async function searchSemanticScholar(query: string, options: SearchOptions, apiKey?: string): Promise<Article[]> {
+  const params = new URLSearchParams({
+    query,
+    publicationDateOrYear: `${options.fromDate}:${options.toDate}`,
+    fields: S2_FIELDS,
+    limit: String(Math.min(options.limit, 100)),
+  });
+  if (options.journals.length > 0) {
+    params.set('venue', options.journals.map(j => j.sourceQuery || j.name).join(','));
+  }
+
+  try {
+    const response = await apiRequest({
+      url: `${S2_API}/paper/search?${params.toString()}`,
+      method: 'GET',
+      headers: s2Headers(apiKey),
+    });
+
+    const data = response.json as SemanticScholarSearchResponse;
+    return (data?.data || [])
+      .map(paper => semanticScholarToArticle(paper))
+      .filter((a): a is Article => a !== null);
+  } catch (error) {
+    console.error('Semantic Scholar search error:', error);
+    throw toApiError(error);
+  }
+}
+
+/**
+ * Fetch a single paper from Semantic Scholar by DOI
+ */
+export async function fetchSemanticScholarByDoi(doi: string, apiKey?: string): Promise<Article | null> {
+  const params = new URLSearchParams({ fields: S2_FIELDS });
+
+  try {
+    const response = await apiRequest({
+      url: `${S2_API}/paper/DOI:${encodeURIComponent(doi)}?${params.toString()}`,
+      method: 'GET',
+      headers: s2Headers(apiKey),
+    });
+
+    return semanticScholarToArticle(response.json as SemanticScholarPaper);
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    console.error(`Semantic Scholar lookup error for ${doi}:`, error);
+    throw toApiError(error);
+  }
+}
+
+// ==================== RSS / Atom / RDF feeds ====================
+
+const DOI_PATTERN = /10\.\d{4,9}\/[^\s"'<>?#]+/;
+
+/**
+ * Simple string hash (base 36), used for synthetic article keys
+ */
+function hashKey(str: string): string {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    hash = ((hash << 5) - hash) + str.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Pull a DOI out of an identifier, link or guid (`doi:10...`, `info:doi/10...`, `https://doi.org/10...`)
+ */
+export function extractDoi(value: string | undefined | null): string | undefined {
+  if (!value) return undefined;
+  let decoded = value;
+  try {
+    decoded = decodeURIComponent(value);
+  } catch (error) {
+    // A stray `%` (e.g. in a feed guid) is not an escape; match the raw string
+  }
+  const match = decoded.match(DOI_PATTERN);
+  return match ? match[0].replace(/[.,;)\]]+$/, '') : undefined;
+}
+
+function stripHtml(html: string | undefined): string | undefined {
+  if (!html) return undefined;
+  const text = html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+/**
+ * Link of a feed item: RSS/RDF `<link>` text or the Atom alternate `<link href>`
+ */
+function feedItemLink(item: Element): string | undefined {
+  for (const link of xmlChildren(item, 'link')) {
+    const href = link.getAttribute('href');
+    const rel = link.getAttribute('rel');
+    if (href && (!rel || rel === 'alternate')) return href;
+    if (!href && link.textContent?.trim()) return link.textContent.trim();
+  }
+  return undefined;
+}
+
+/**
+ * Convert an RSS item / Atom entry / RDF item to Article.
+ * Entries without a DOI get a stable synthetic key derived from their guid or link.
+ */
+function feedItemToArticle(item: Element, journalName: string, journalIssn: string): Article | null {
+  const title = stripHtml(xmlChildText(item, 'title'));
+  const link = feedItemLink(item);
+  const guid = xmlChildText(item, 'guid') || xmlChildText(item, 'id') || item.getAttribute('rdf:about') || undefined;
+  if (!title && !link && !guid) return null;
+
+  const doi = extractDoi(xmlChildText(item, 'doi'))
+    || xmlChildren(item, 'identifier').map(el => extractDoi(el.textContent)).find(d => d)
+    || extractDoi(link)
+    || extractDoi(guid);
+  const key = doi || `feed:${hashKey(guid || link || title || '')}`;
+
+  const rawDate = xmlChildText(item, 'publicationDate')
+    || xmlChildText(item, 'date')
+    || xmlChildText(item, 'pubDate')
+    || xmlChildText(item, 'published')
+    || xmlChildText(item, 'updated');
+  const parsed = rawDate ? new Date(rawDate) : null;
+  const date = parsed && !isNaN(parsed.getTime())
+    ? parsed.toISOString().split('T')[0]
+    : new Date().toISOString().split('T')[0];
+
+  const creators = xmlChildren(item, 'creator').map(el => el.textContent?.trim() || '');
+  const atomAuthors = xmlChildren(item, 'author').map(el => xmlChildText(el, 'name') || el.textContent?.trim() || '');
+  const authors = (creators.length > 0 ? creators : atomAuthors)
+    // Some publishers put every author into a single dc:creator
+    .flatMap(a => a.includes(';') ? a.split(';') : [a])
+    .map(a => a.trim())
+    .filter(a => a);
+
+  const startPage = xmlChildText(item, 'startingPage');
+  const endPage = xmlChildText(item, 'endingPage');
+
+  const keywords = [
+    ...xmlChildren(item, 'subject').map(el => el.textContent?.trim() || ''),
+    ...xmlChildren(item, 'category').map(el => el.getAttribute('term') || el.textContent?.trim() || ''),
+  ].filter(k => k);
+
+  return {
+    doi: key,
+    title: title || 'Untitled',
+    authors,
+    journal: journalName,
+    journalIssn,
+    volume: xmlChildText(item, 'volume'),
+    issue: xmlChildText(item, 'number'),
+    pages: startPage && endPage ? `${startPage}-${endPage}` : startPage,
+    date,
+    year: parseInt(date.substring(0, 4), 10),
+    abstract: stripHtml(
+      xmlChildText(item, 'description')
+      || xmlChildText(item, 'encoded')
+      || xmlChildText(item, 'summary')
+      || xmlChildText(item, 'content')
+    ),
+    keywords,
+    url: doi ? `https://doi.org/${doi}` : link || '',
+    state: 'unseen',
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * When a feed item was published or last updated, whichever is later; undefined without a usable date
+ */
+function feedItemUpdatedAt(item: Element): string | undefined {
+  const times = ['pubDate', 'published', 'updated', 'date']
+    .map(name => new Date(xmlChildText(item, name) || '').getTime())
+    .filter(time => !isNaN(time));
+  return times.length > 0 ? new Date(Math.max(...times)).toISOString() : undefined;
+}
+
+/**
+ * Feed-level element holding the title and ISSN (RSS `<channel>`, Atom `<feed>`)
+ */
+function feedChannel(doc: Document): Element | undefined {
+  const root = doc.documentElement;
+  if (!root) return undefined;
+  return xmlChildren(root, 'channel')[0] || root;
+}
+
+/**
+ * Items of an RSS 2.0 (`channel > item`), RSS 1.0/RDF (`rdf:RDF > item`) or Atom (`feed > entry`) document
+ */
+function feedItems(doc: Document): Element[] {
+  const root = doc.documentElement;
+  if (!root) return [];
+  if (root.localName === 'feed') return xmlChildren(root, 'entry');
+
+  const channel = xmlChildren(root, 'channel')[0];
+  return [
+    ...(channel ? xmlChildren(channel, 'item') : []),
+    ...xmlChildren(root, 'item'),
+  ];
+}
+
+/**
+ * Parse an RSS 2.0, RSS 1.0 (RDF) or Atom document into articles.
+ * With `since`, items published or updated before then are left out; undated items are kept.
+ */
+export function parseFeed(text: string, journalName: string, journalIssn: string, since?: string): Article[] {
+  const doc = parseXml(text);
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Feed is not well-formed XML');
+  }
+
+  return feedItems(doc)
+    .filter(item => {
+      if (!since) return true;
+      const updatedAt = feedItemUpdatedAt(item);
+      return !updatedAt || updatedAt >= since;
+    })
+    .map(item => feedItemToArticle(item, journalName, journalIssn))
+    .filter((a): a is Article => a !== null);
+}
+
+/**
+ * Fetch a journal's table-of-contents feed.
+ * Feeds only carry recent items, so there is no paging; entries older than the window are dropped,
+ * or with `since`, entries not published or updated since then.
+ */
+export async function fetchFromFeed(journal: JournalConfig, options: FetchOptions): Promise<JournalFetchResult> {
+  if (!journal.feedUrl) {
+    console.warn(`No feed URL configured for ${journal.name}`);
+    return { articles: [], total: 0, truncated: false };
+  }
+
+  try {
+    const response = await apiRequest({ url: journal.feedUrl, method: 'GET' });
+    const articles = parseFeed(response.text, journal.name, journal.issn, options.since)
+      .filter(a => options.since || a.date >= options.fromDate);
+
+    return { articles: articles.slice(0, options.maxArticles), total: articles.length, truncated: articles.length > options.maxArticles };
+  } catch (error) {
+    console.error(`Feed fetch error for ${journal.name}:`, error);
+    return { articles: [], total: 0, truncated: false, error: toApiError(error) };
+  }
+}
+
+/**
+ * Read a feed's title and ISSN to build a journal configuration for it
+ */
+export async function lookupFeed(feedUrl: string): Promise<JournalConfig | null> {
+  try {
+    const response = await apiRequest({ url: feedUrl, method: 'GET' });
+    const doc = parseXml(response.text);
+    const channel = feedChannel(doc);
+    if (!channel || (feedItems(doc).length === 0 && !xmlChildText(channel, 'title'))) return null;
+
+    const issn = xmlChildText(channel, 'issn');
+    return {
+      name: stripHtml(xmlChildText(channel, 'title')) || new URL(feedUrl).hostname,
+      issn: issn || `feed:${feedUrl}`,
+      issnElectronic: xmlChildText(channel, 'eIssn'),
+      publisher: xmlChildText(channel, 'publisher') || new URL(feedUrl).hostname,
+      enabled: true,
+      provider: 'rss',
+      feedUrl,
+    };
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    console.error('Feed lookup error:', error);
+    throw toApiError(error);
+  }
+}
+
+// ==================== Provider registry ====================
+
+/**
+ * Create the provider for a source, configured from plugin settings
+ */
+export function createProvider(id: ProviderId, settings: JournalMonitorSettings): ArticleProvider {
+  const openAlexEmail = settings.openAlexEmail || undefined;
+  const crossRefEmail = settings.crossRefEmail || undefined;
+  const ncbiApiKey = settings.ncbiApiKey || undefined;
+  const s2ApiKey = settings.semanticScholarApiKey || undefined;
+
+  switch (id) {
+    case 'crossref':
+      return {
+        id,
+        name: PROVIDER_NAMES[id],
+        sourceLabel: 'ISSN',
+        fetchJournal: (journal, options) => fetchFromCrossRef(journal, options, crossRefEmail),
+        search: (query, options) => searchCrossRef(
+          query,
+          options.journals.map(j => j.issn),
+          options.fromDate,
+          options.toDate,
+          options.limit,
+          crossRefEmail
+        ),
+        lookupSource: issn => lookupCrossRefJournal(issn, crossRefEmail),
+        fetchByDoi: doi => fetchCrossRefByDoi(doi, crossRefEmail),
+      };
+    case 'pubmed':
+      return {
+        id,
+        name: PROVIDER_NAMES[id],
+        sourceLabel: 'ISSN',
+        fetchJournal: (journal, options) => fetchFromPubMed(journal, options, openAlexEmail, ncbiApiKey),
+        search: (query, options) => searchPubMed(query, options, openAlexEmail, ncbiApiKey),
+        lookupSource: issn => lookupPubMedJournal(issn, openAlexEmail, ncbiApiKey),
+        fetchByDoi: doi => fetchPubMedByDoi(doi, openAlexEmail, ncbiApiKey),
+      };
+    case 'semanticscholar':
+      return {
+        id,
+        name: PROVIDER_NAMES[id],
+        sourceLabel: 'ISSN',
+        fetchJournal: (journal, options) => fetchFromSemanticScholar(journal, options, s2ApiKey),
+        search: (query, options) => searchSemanticScholar(query, options, s2ApiKey),
+        // Semantic Scholar has no venue lookup; resolve the name through OpenAlex and match venues by it
+        lookupSource: async issn => {
+          const journal = await lookupJournalByIssn(issn);
+          return journal ? { ...journal, sourceQuery: journal.name } : null;
+        },
+        fetchByDoi: doi => fetchSemanticScholarByDoi(doi, s2ApiKey),
+      };
+    case 'arxiv':
+      return {
+        id,
+        name: PROVIDER_NAMES[id],
+        sourceLabel: 'arXiv category (e.g. physics.geo-ph)',
+        fetchJournal: fetchFromArxiv,
+        search: searchArxiv,
+        lookupSource: lookupArxivCategory,
+        fetchByDoi: fetchArxivByDoi,
+      };
+    case 'biorxiv':
+    case 'medrxiv':
+      return {
+        id,
+        name: PROVIDER_NAMES[id],
+        sourceLabel: `${PROVIDER_NAMES[id]} subject (e.g. ${id === 'biorxiv' ? 'ecology' : 'epidemiology'})`,
+        fetchJournal: (journal, options) => fetchFromBiorxiv(id, journal, options),
+        // The bioRxiv API has no keyword search
+        search: async () => [],
+        lookupSource: category => lookupBiorxivCategory(id, category),
+        fetchByDoi: doi => fetchBiorxivByDoi(id, doi),
+      };
+    case 'rss':
+      return {
+        id,
+        name: PROVIDER_NAMES[id],
+        sourceLabel: 'Feed URL',
+        fetchJournal: fetchFromFeed,
+        search: async () => [],
+        lookupSource: lookupFeed,
+        fetchByDoi: async () => null,
+      };
+    case 'openalex':
+    default:
+      return {
+        id: 'openalex',
+        name: PROVIDER_NAMES.openalex,
+        sourceLabel: 'ISSN',
+        fetchJournal: (journal, options) => fetchFromOpenAlex(journal, options, openAlexEmail),
+        search: (query, options) => searchOpenAlex(
+          query,
+          options.journals.map(j => j.issn),
+          options.fromDate,
+          options.toDate,
+          options.limit,
+          openAlexEmail
+        ),
+        lookupSource: issn => lookupJournalByIssn(issn),
+        fetchByDoi: doi => fetchOpenAlexByDoi(doi, openAlexEmail),
+      };
+  }
+}
+
+/**
+ * Provider that feeds a journal: its own, or the global default
+ */
+export function getJournalProvider(journal: JournalConfig, settings: JournalMonitorSettings): ArticleProvider {
+  return createProvider(journal.provider || settings.apiProvider, settings);
+}
+
 /**
  * Calculate date range based on filter
  */
@@ -0,0 +1,156 @@
+import { DEFAULT_DATA, DEFAULT_SETTINGS, JournalMonitorData, JournalMonitorSettings } from './types';
+import { computeStatistics, mergePluginData } from './sync';
+import { computeDailyStats } from './stats';
+import { upgradeFilterConfig } from './utils';
+
+export const BACKUP_FORMAT = 'journal-monitor-state';
+
+// Bumped when the bundle layout changes incompatibly; older bundles stay importable
+export const BACKUP_VERSION = 1;
+
+// API keys are left out of bundles, which end up in the vault and may be shared;
+// the local values are kept on import
+const SECRET_SETTINGS: (keyof JournalMonitorSettings)[] = ['ncbiApiKey', 'semanticScholarApiKey'];
+
+export type ImportMode = 'merge' | 'replace';
+
+// Settings and data (including the full article cache) as one versioned JSON file
+export interface StateBundle {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  pluginVersion: string;
+  // Why an automatic snapshot was taken, e.g. "before-clear-cache"; absent for manual exports
+  reason?: string;
+  settings: Partial<JournalMonitorSettings>;
+  data: JournalMonitorData;
+}
+
+// A bundle found on disk
+export interface BundleFile {
+  path: string;
+  // Taken automatically before a destructive action, rather than exported
+  snapshot: boolean;
+  bundle: StateBundle;
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+/**
+ * Bundle the current settings and data. The result is a deep copy.
+ */
+export function createStateBundle(
+  settings: JournalMonitorSettings,
+  data: JournalMonitorData,
+  pluginVersion: string,
+  reason?: string
+): StateBundle {
+  const exportedSettings: Partial<JournalMonitorSettings> = JSON.parse(JSON.stringify(settings));
+  for (const key of SECRET_SETTINGS) {
+    delete exportedSettings[key];
+  }
+
+  const bundle: StateBundle = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    pluginVersion,
+    settings: exportedSettings,
+    data: JSON.parse(JSON.stringify({ ...data, statistics: computeStatistics(data.articles) })),
+  };
+  if (reason) bundle.reason = reason;
+  return bundle;
+}
+
+/**
+ * Read a bundle file, throwing a BackupError if it is not a bundle this version can import
+ */
+export function parseStateBundle(text: string): StateBundle {
+  let parsed: StateBundle;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new BackupError('Not a JSON file');
+  }
+
+  if (!parsed || parsed.format !== BACKUP_FORMAT) {
+    throw new BackupError('Not a Journal Monitor backup');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    throw new BackupError(`Backup format ${parsed.version} is newer than this plugin supports; update Journal Monitor first`);
+  }
+  if (!parsed.settings || typeof parsed.settings !== 'object'
+    || !parsed.data || typeof parsed.data.articles !== 'object' || parsed.data.articles === null) {
+    throw new BackupError('Backup is missing settings or article data');
+  }
+
+  return parsed;
+}
+
+/**
+ * Apply a bundle to the current settings and data, in place (open views hold these objects).
+ *
+ * - `replace`: settings and data become the bundle's. Local API keys and the storage
+ *   format version are kept.
+ * - `merge`: journals the bundle follows and its feeds are added, other settings stay as they are, and
+ *   data merges like a copy synced from another device (last state change wins per article).
+ */
+export function applyStateBundle(
+  settings: JournalMonitorSettings,
+  data: JournalMonitorData,
+  bundle: StateBundle,
+  mode: ImportMode
+): void {
+  if (mode === 'replace') {
+    const secrets: Partial<JournalMonitorSettings> = {};
+    for (const key of SECRET_SETTINGS) {
+      (secrets as Record<string, unknown>)[key] = settings[key];
+    }
+    Object.assign(settings, DEFAULT_SETTINGS, bundle.settings, secrets);
+    settings.journals = (settings.journals || DEFAULT_SETTINGS.journals).map(journal => ({ ...journal }));
+    settings.folderRules = [...(settings.folderRules || [])];
+    settings.currentFilter = upgradeFilterConfig(settings.currentFilter);
+    settings.feeds = (settings.feeds || []).map(feed => ({ ...feed, filter: upgradeFilterConfig(feed.filter) }));
+
+    const version = data.version;
+    Object.assign(data, DEFAULT_DATA, bundle.data);
+    data.version = version;
+    data.articles = { ...data.articles };
+    data.journalSync = { ...data.journalSync };
+    data.runs = [...data.runs];
+    data.tombstones = { ...data.tombstones };
+    data.browsePosition = { ...data.browsePosition };
+    data.feedPositions = { ...data.feedPositions };
+    data.daily = { ...data.daily };
+  } else {
+    for (const journal of bundle.settings.journals || []) {
+      if (!settings.journals.some(j => j.issn === journal.issn)) {
+        settings.journals.push(journal);
+      }
+    }
+    for (const feed of bundle.settings.feeds || []) {
+      if (!settings.feeds.some(f => f.id === feed.id)) {
+        settings.feeds.push({ ...feed, filter: upgradeFilterConfig(feed.filter) });
+      }
+    }
+    mergePluginData(data, bundle.data);
+  }
+
+  data.statistics = computeStatistics(data.articles);
+  data.daily = computeDailyStats(data.articles, data.daily);
+}
+
+/**
+ * One-line summary of a bundle for pickers
+ */
+export function describeStateBundle(bundle: StateBundle): string {
+  const articles = Object.values(bundle.data.articles);
+  const saved = articles.filter(a => a.state === 'saved').length;
+  const journals = bundle.settings.journals?.length || 0;
+  return `${articles.length} articles (${saved} saved) · ${journals} journals · v${bundle.pluginVersion}`;
+}
@@ -0,0 +1,190 @@
+/**
+ * Minimal SVG charts for the statistics dashboard. Charts scale to their container through
+ * the viewBox; colours come from CSS classes so they follow the theme.
+ */
+
+export interface ChartSeries {
+  label: string;
+  // One value per x label; null leaves a gap
+  values: (number | null)[];
+  cls: string;
+}
+
+export interface BarRow {
+  label: string;
+  value: number;
+  // Shown after the bar, e.g. "42% (21/50)"
+  text: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const MARGIN = { top: 10, right: 10, bottom: 22, left: 36 };
+
+// Horizontal bar charts: row height and width of the label column
+const ROW_HEIGHT = 22;
+const LABEL_WIDTH = 200;
+const VALUE_WIDTH = 110;
+const MAX_LABEL_LENGTH = 30;
+
+// Most x-axis labels shown before thinning them out
+const MAX_X_LABELS = 8;
+
+/**
+ * Round a maximum up to 1, 2 or 5 times a power of ten so the axis reads cleanly
+ */
+function niceMax(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const step = [1, 2, 5, 10].find(s => s * magnitude >= value) || 10;
+  return step * magnitude;
+}
+
+function formatTick(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+function createChart(parent: HTMLElement, width: number, height: number, description: string): SVGSVGElement {
+  const svg = parent.createSvg('svg', {
+    cls: 'jm-chart',
+    attr: { viewBox: `0 0 ${width} ${height}`, role: 'img', 'aria-label': description },
+  });
+  svg.createSvg('title').textContent = description;
+  return svg;
+}
+
+function addText(svg: SVGElement, x: number, y: number, text: string, cls: string, anchor = 'middle') {
+  svg.createSvg('text', { cls, attr: { x, y, 'text-anchor': anchor } }).textContent = text;
+}
+
+/**
+ * Y axis with gridlines at 0, half and max, and thinned-out x labels
+ */
+function drawAxes(svg: SVGSVGElement, labels: string[], max: number, xOf: (i: number) => number) {
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  for (const fraction of [0, 0.5, 1]) {
+    const y = MARGIN.top + plotHeight * (1 - fraction);
+    svg.createSvg('line', {
+      cls: 'jm-chart-grid',
+      attr: { x1: MARGIN.left, x2: WIDTH - MARGIN.right, y1: y, y2: y },
+    });
+    addText(svg, MARGIN.left - 4, y + 4, formatTick(max * fraction), 'jm-chart-label', 'end');
+  }
+
+  const every = Math.ceil(labels.length / MAX_X_LABELS);
+  labels.forEach((label, i) => {
+    if ((labels.length - 1 - i) % every !== 0) return;
+    addText(svg, xOf(i), HEIGHT - 6, label, 'jm-chart-label');
+  });
+}
+
+function renderLegend(parent: HTMLElement, series: ChartSeries[]) {
+  if (series.length < 2) return;
+  const legend = parent.createDiv({ cls: 'jm-chart-legend' });
+  for (const s of series) {
+    const item = legend.createSpan({ cls: 'jm-chart-legend-item' });
+    item.createSpan({ cls: `jm-chart-swatch ${s.cls}` });
+    item.createSpan({ text: s.label });
+  }
+}
+
+/**
+ * Grouped vertical bars, one group per label
+ */
+export function renderBarChart(parent: HTMLElement, labels: string[], series: ChartSeries[], description: string) {
+  const svg = createChart(parent, WIDTH, HEIGHT, description);
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const max = niceMax(Math.max(0, ...series.map(s => Math.max(0, ...s.values.map(v => v || 0)))));
+
+  const groupWidth = plotWidth / Math.max(labels.length, 1);
+  const barWidth = groupWidth * 0.8 / Math.max(series.length, 1);
+  const xOf = (i: number) => MARGIN.left + groupWidth * (i + 0.5);
+  drawAxes(svg, labels, max, xOf);
+
+  labels.forEach((label, i) => {
+    series.forEach((s, j) => {
+      const value = s.values[i];
+      if (!value) return;
+      const height = plotHeight * value / max;
+      const bar = svg.createSvg('rect', {
+        cls: `jm-chart-bar ${s.cls}`,
+        attr: {
+          x: MARGIN.left + groupWidth * i + groupWidth * 0.1 + barWidth * j,
+          y: MARGIN.top + plotHeight - height,
+          width: barWidth,
+          height,
+        },
+      });
+      bar.createSvg('title').textContent = `${label} - ${s.label}: ${formatTick(value)}`;
+    });
+  });
+
+  renderLegend(parent, series);
+}
+
+/**
+ * Lines over the labels; null values break the line
+ */
+export function renderLineChart(parent: HTMLElement, labels: string[], series: ChartSeries[], description: string) {
+  const svg = createChart(parent, WIDTH, HEIGHT, description);
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const max = niceMax(Math.max(0, ...series.map(s => Math.max(0, ...s.values.map(v => v || 0)))));
+
+  const xOf = (i: number) => MARGIN.left + (labels.length > 1 ? plotWidth * i / (labels.length - 1) : plotWidth / 2);
+  const yOf = (value: number) => MARGIN.top + plotHeight * (1 - value / max);
+  drawAxes(svg, labels, max, xOf);
+
+  for (const s of series) {
+    let path = '';
+    let penDown = false;
+    s.values.forEach((value, i) => {
+      if (value === null) {
+        penDown = false;
+        return;
+      }
+      path += `${penDown ? 'L' : 'M'}${xOf(i).toFixed(1)},${yOf(value).toFixed(1)} `;
+      penDown = true;
+    });
+    if (path) {
+      svg.createSvg('path', { cls: `jm-chart-line ${s.cls}`, attr: { d: path.trim() } });
+    }
+
+    // Points on top of the line, with the value on hover
+    s.values.forEach((value, i) => {
+      if (value === null) return;
+      const point = svg.createSvg('circle', {
+        cls: `jm-chart-point ${s.cls}`,
+        attr: { cx: xOf(i), cy: yOf(value), r: 2.5 },
+      });
+      point.createSvg('title').textContent = `${labels[i]} - ${s.label}: ${formatTick(value)}`;
+    });
+  }
+
+  renderLegend(parent, series);
+}
+
+/**
+ * One horizontal bar per row, scaled to `max` (default: the largest value)
+ */
+export function renderHorizontalBars(parent: HTMLElement, rows: BarRow[], cls: string, description: string, max?: number) {
+  const height = Math.max(rows.length, 1) * ROW_HEIGHT;
+  const svg = createChart(parent, WIDTH, height, description);
+  const scale = max || Math.max(0, ...rows.map(row => row.value)) || 1;
+  const barSpace = WIDTH - LABEL_WIDTH - VALUE_WIDTH;
+
+  rows.forEach((row, i) => {
+    const y = i * ROW_HEIGHT;
+    const label = row.label.length > MAX_LABEL_LENGTH
+      ? `${row.label.substring(0, MAX_LABEL_LENGTH - 1)}…`
+      : row.label;
+    addText(svg, LABEL_WIDTH - 6, y + ROW_HEIGHT * 0.65, label, 'jm-chart-label', 'end');
+    const width = Math.max(barSpace * row.value / scale, 1);
+    svg.createSvg('rect', {
+      cls: `jm-chart-bar ${cls}`,
+      attr: { x: LABEL_WIDTH, y: y + 4, width, height: ROW_HEIGHT - 8 },
+    });
+    addText(svg, LABEL_WIDTH + width + 6, y + ROW_HEIGHT * 0.65, row.text, 'jm-chart-label', 'start');
+  });
+}
@@ -0,0 +1,330 @@
+import { Article, JournalMonitorSettings } from './types';
+import { isDoi } from './utils';
+
+export type CitationFormat = 'bibtex' | 'biblatex' | 'ris' | 'csl-json';
+
+export const CITATION_FORMATS: Record<CitationFormat, { name: string; extension: string }> = {
+  bibtex: { name: 'BibTeX', extension: 'bib' },
+  biblatex: { name: 'BibLaTeX', extension: 'bib' },
+  ris: { name: 'RIS', extension: 'ris' },
+  'csl-json': { name: 'CSL-JSON', extension: 'json' },
+};
+
+export const DEFAULT_CITEKEY_PATTERN = '[auth:lower][year][veryshorttitle:lower]';
+
+// Words skipped by the title-based key fields
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'on', 'in', 'for', 'and', 'or', 'to', 'with', 'at', 'by', 'from', 'as', 'is', 'are', 'via', 'into',
+]);
+
+// Journal keys used for preprint feeds (see JournalConfig.issn)
+const PREPRINT_PREFIXES = ['arxiv:', 'biorxiv:', 'medrxiv:'];
+
+interface PersonName {
+  family: string;
+  given: string;
+}
+
+/**
+ * Split an author string into family and given names.
+ * Providers return either "Family, Given" (CrossRef) or "Given Family" (OpenAlex).
+ */
+export function parseAuthorName(author: string): PersonName {
+  const comma = author.indexOf(',');
+  if (comma !== -1) {
+    return { family: author.substring(0, comma).trim(), given: author.substring(comma + 1).trim() };
+  }
+  const parts = author.trim().split(/\s+/);
+  const family = parts.pop() || '';
+  return { family, given: parts.join(' ') };
+}
+
+function isPreprint(article: Article): boolean {
+  return PREPRINT_PREFIXES.some(prefix => article.journalIssn.startsWith(prefix));
+}
+
+// ==================== Citation keys ====================
+
+/**
+ * ASCII letters and digits only, with accents folded (Müller -> Muller)
+ */
+function keySafe(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^A-Za-z0-9]/g, '');
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+function significantTitleWords(article: Article): string[] {
+  return article.title
+    .split(/[\s\-–—:/]+/)
+    .map(keySafe)
+    .filter(word => word && !FUNCTION_WORDS.has(word.toLowerCase()));
+}
+
+// Fields available in citation key patterns
+const KEY_FIELDS: Record<string, (article: Article) => string> = {
+  auth: a => keySafe(parseAuthorName(a.authors[0] || '').family) || 'Anon',
+  authors: a => {
+    const families = a.authors.slice(0, 3).map(name => keySafe(parseAuthorName(name).family));
+    return families.join('') + (a.authors.length > 3 ? 'EtAl' : '') || 'Anon';
+  },
+  year: a => String(a.year || ''),
+  shortyear: a => String(a.year || '').slice(-2),
+  title: a => significantTitleWords(a).map(capitalize).join(''),
+  shorttitle: a => significantTitleWords(a).slice(0, 3).map(capitalize).join(''),
+  veryshorttitle: a => significantTitleWords(a)[0] || '',
+  journal: a => a.journal.split(/\s+/).map(keySafe).filter(w => w && !FUNCTION_WORDS.has(w.toLowerCase()))
+    .map(w => w.charAt(0).toUpperCase()).join(''),
+};
+
+const KEY_MODIFIERS: Record<string, (value: string) => string> = {
+  lower: value => value.toLowerCase(),
+  upper: value => value.toUpperCase(),
+  capitalize,
+};
+
+/**
+ * Format a citation key from a Better BibTeX-style pattern, e.g. `[auth:lower][year][shorttitle]`.
+ * Text outside brackets is copied as is; unknown fields are dropped.
+ */
+export function formatCitekey(article: Article, pattern: string = DEFAULT_CITEKEY_PATTERN): string {
+  const key = (pattern || DEFAULT_CITEKEY_PATTERN).replace(/\[([^\]]+)\]/g, (_, token: string) => {
+    const [field, ...modifiers] = token.split(':');
+    let value = KEY_FIELDS[field.trim()]?.(article) ?? '';
+    for (const modifier of modifiers) {
+      value = KEY_MODIFIERS[modifier.trim()]?.(value) ?? value;
+    }
+    return value;
+  });
+
+  // Keys end up in LaTeX and Pandoc; keep to characters both accept
+  return key.replace(/[^A-Za-z0-9_:.\-]/g, '') || 'unknown';
+}
+
+/**
+ * Append a, b, c, ... aa, ab, ... until the key is not taken
+ */
+function disambiguate(base: string, taken: Set<string>): string {
+  if (!taken.has(base)) return base;
+
+  for (let n = 0; ; n++) {
+    let suffix = '';
+    for (let i = n; i >= 0; i = Math.floor(i / 26) - 1) {
+      suffix = String.fromCharCode(97 + (i % 26)) + suffix;
+    }
+    if (!taken.has(base + suffix)) return base + suffix;
+  }
+}
+
+/**
+ * Give an article a citation key unique across the cache. Keys are kept once
+ * assigned so citations in existing documents keep resolving.
+ */
+export function assignCitekey(
+  article: Article,
+  articles: Record<string, Article>,
+  settings: JournalMonitorSettings
+): string {
+  if (article.citekey) return article.citekey;
+
+  const taken = new Set<string>();
+  for (const other of Object.values(articles)) {
+    if (other.citekey && other.doi !== article.doi) taken.add(other.citekey);
+  }
+
+  article.citekey = disambiguate(formatCitekey(article, settings.citekeyPattern), taken);
+  return article.citekey;
+}
+
+/**
+ * Assign keys to every article that lacks one, oldest saves first so earlier
+ * articles keep the undecorated key. With `regenerate`, existing keys are replaced.
+ * Returns the articles whose key changed.
+ */
+export function assignCitekeys(
+  articles: Article[],
+  allArticles: Record<string, Article>,
+  settings: JournalMonitorSettings,
+  regenerate = false
+): Article[] {
+  const changed: Article[] = [];
+  const ordered = [...articles].sort((a, b) =>
+    (a.savedAt || a.fetchedAt).localeCompare(b.savedAt || b.fetchedAt) || a.doi.localeCompare(b.doi)
+  );
+
+  if (regenerate) {
+    for (const article of ordered) {
+      if (article.citekey) {
+        delete article.citekey;
+        changed.push(article);
+      }
+    }
+  }
+
+  for (const article of ordered) {
+    if (article.citekey) continue;
+    assignCitekey(article, allArticles, settings);
+    if (!changed.includes(article)) changed.push(article);
+  }
+
+  return changed;
+}
+
+// ==================== BibTeX / BibLaTeX ====================
+
+const LATEX_ESCAPES: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '&': '\\&',
+  '%': '\\%',
+  '$': '\\$',
+  '#': '\\#',
+  '_': '\\_',
+  '{': '\\{',
+  '}': '\\}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+};
+
+/**
+ * Escape LaTeX special characters in a field value
+ */
+export function escapeLatex(text: string): string {
+  return text.replace(/[\\&%$#_{}~^]/g, char => LATEX_ESCAPES[char]).replace(/\s+/g, ' ').trim();
+}
+
+function formatBibAuthors(authors: string[]): string {
+  return authors
+    .map(parseAuthorName)
+    .map(name => name.given ? `${escapeLatex(name.family)}, ${escapeLatex(name.given)}` : `{${escapeLatex(name.family)}}`)
+    .join(' and ');
+}
+
+/**
+ * BibTeX or BibLaTeX entry for an article
+ */
+export function toBibtex(article: Article, format: 'bibtex' | 'biblatex' = 'bibtex'): string {
+  const biblatex = format === 'biblatex';
+  const preprint = isPreprint(article);
+  const type = preprint ? (biblatex ? 'online' : 'misc') : 'article';
+  const fields: [string, string | undefined][] = [
+    ['title', escapeLatex(article.title)],
+    ['author', formatBibAuthors(article.authors)],
+  ];
+
+  if (preprint) {
+    fields.push([biblatex ? 'organization' : 'howpublished', escapeLatex(article.journal)]);
+  } else {
+    fields.push([biblatex ? 'journaltitle' : 'journal', escapeLatex(article.journal)]);
+  }
+  fields.push(
+    ['volume', article.volume && escapeLatex(article.volume)],
+    ['number', article.issue && escapeLatex(article.issue)],
+    ['pages', article.pages && escapeLatex(article.pages).replace(/\s*[-–—]+\s*/, '--')],
+  );
+  if (biblatex) {
+    fields.push(['date', article.date || String(article.year)]);
+    if (preprint) fields.push(['pubstate', 'prepublished']);
+  } else {
+    fields.push(['year', String(article.year)]);
+  }
+  fields.push(
+    ['doi', isDoi(article.doi) ? article.doi : undefined],
+    ['url', article.url],
+    ['issn', !preprint && /^\d{4}-\d{3}[\dX]$/i.test(article.journalIssn) ? article.journalIssn : undefined],
+    ['keywords', article.keywords?.length ? escapeLatex(article.keywords.join(', ')) : undefined],
+    ['abstract', article.abstract && escapeLatex(article.abstract)],
+  );
+
+  const lines = fields
+    .filter((field): field is [string, string] => !!field[1])
+    .map(([name, value]) => `  ${name}={${value}}`);
+
+  return `@${type}{${article.citekey || formatCitekey(article)},\n${lines.join(',\n')}\n}`;
+}
+
+// ==================== RIS ====================
+
+/**
+ * RIS record for an article
+ */
+export function toRis(article: Article): string {
+  const lines: string[] = [];
+  const tag = (name: string, value: string | undefined) => {
+    if (value) lines.push(`${name}  - ${value.replace(/\s+/g, ' ').trim()}`);
+  };
+
+  tag('TY', isPreprint(article) ? 'UNPB' : 'JOUR');
+  tag('ID', article.citekey);
+  tag('TI', article.title);
+  for (const author of article.authors) {
+    const name = parseAuthorName(author);
+    tag('AU', name.given ? `${name.family}, ${name.given}` : name.family);
+  }
+  tag('T2', article.journal);
+  tag('PY', String(article.year));
+  tag('DA', article.date ? article.date.replace(/-/g, '/') : undefined);
+  tag('VL', article.volume);
+  tag('IS', article.issue);
+  const [startPage, endPage] = (article.pages || '').split(/\s*[-–—]+\s*/);
+  tag('SP', startPage);
+  tag('EP', endPage);
+  tag('SN', /^\d{4}-\d{3}[\dX]$/i.test(article.journalIssn) ? article.journalIssn : undefined);
+  tag('DO', isDoi(article.doi) ? article.doi : undefined);
+  tag('UR', article.url);
+  tag('AB', article.abstract);
+  for (const keyword of article.keywords || []) {
+    tag('KW', keyword);
+  }
+  lines.push('ER  - ');
+
+  return lines.join('\n');
+}
+
+// ==================== CSL-JSON ====================
+
+/**
+ * CSL-JSON item for an article (as used by Pandoc and Zotero)
+ */
+export function toCslJson(article: Article): Record<string, unknown> {
+  const dateParts = (article.date || String(article.year)).split('-').map(Number).filter(n => !isNaN(n));
+
+  const item: Record<string, unknown> = {
+    id: article.citekey || formatCitekey(article),
+    type: isPreprint(article) ? 'article' : 'article-journal',
+    title: article.title,
+    author: article.authors.map(parseAuthorName).map(name => name.given ? name : { literal: name.family }),
+    'container-title': article.journal,
+    issued: { 'date-parts': [dateParts] },
+  };
+  if (article.volume) item.volume = article.volume;
+  if (article.issue) item.issue = article.issue;
+  if (article.pages) item.page = article.pages;
+  if (isDoi(article.doi)) item.DOI = article.doi;
+  if (article.url) item.URL = article.url;
+  if (/^\d{4}-\d{3}[\dX]$/i.test(article.journalIssn)) item.ISSN = article.journalIssn;
+  if (article.abstract) item.abstract = article.abstract;
+  if (article.keywords?.length) item.keyword = article.keywords.join(', ');
+
+  return item;
+}
+
+/**
+ * Serialize articles as a bibliography file in the given format
+ */
+export function exportBibliography(articles: Article[], format: CitationFormat): string {
+  const sorted = [...articles].sort((a, b) =>
+    (a.citekey || '').localeCompare(b.citekey || '') || a.doi.localeCompare(b.doi)
+  );
+
+  switch (format) {
+    case 'csl-json':
+      return JSON.stringify(sorted.map(toCslJson), null, 2) + '\n';
+    case 'ris':
+      return sorted.map(toRis).join('\n\n') + '\n';
+    case 'bibtex':
+    case 'biblatex':
+      return sorted.map(a => toBibtex(a, format)).join('\n\n') + '\n';
+  }
+}
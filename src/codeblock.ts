@@ -0,0 +1,211 @@
+import { Article, FilterConfig, JournalConfig, JournalMonitorSettings } from './types';
+import { getDateRange } from './api';
+import { validateQuery } from './query';
+import { READING_STATUSES } from './reading';
+import { filterArticles } from './utils';
+
+/**
+ * Query of a `journal-monitor` code block, one `key: value` per line:
+ *
+ *   state: unseen                  unseen, viewed, saved, skipped, all, or a reading status
+ *   journal: Nature Climate Change journal names or ISSNs, comma-separated
+ *   date: week                     day, week, month, 3months, 14d, 2024-01-01..2024-03-31, 2024-01-01..
+ *   keyword: lidar OR SAR          filter query (see query.ts)
+ *   sort: date-desc                date-desc, date-asc, journal, relevance
+ *   limit: 20
+ *   view: list                     list or table
+ */
+
+export const CODE_BLOCK_LANGUAGE = 'journal-monitor';
+
+export interface BlockQuery {
+  filter: FilterConfig;
+  // Publication date bounds (YYYY-MM-DD, inclusive); open-ended when absent
+  from?: string;
+  to?: string;
+  limit: number;
+  view: 'list' | 'table';
+}
+
+export class CodeBlockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CodeBlockError';
+  }
+}
+
+const DEFAULT_LIMIT = 25;
+
+const STATES: FilterConfig['showState'][] = ['unseen', 'viewed', 'saved', 'skipped', 'all', ...READING_STATUSES];
+const SORTS: FilterConfig['sortBy'][] = ['date-desc', 'date-asc', 'journal', 'relevance'];
+const NAMED_RANGES = ['day', 'week', 'month', '3months'];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * YYYY-MM-DD of a date in local time, so "today" starts at local midnight
+ */
+function toLocalDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Date bounds for a `date:` value, or null if it isn't one we understand
+ */
+function parseDate(value: string, from?: string, to?: string): { from?: string; to?: string } | null {
+  const normalized = value.toLowerCase();
+
+  if (normalized === 'today') {
+    const today = toLocalDate(new Date());
+    return { from: today, to: today };
+  }
+  if (NAMED_RANGES.includes(normalized)) {
+    return getDateRange(normalized);
+  }
+
+  const days = normalized.match(/^(\d+)\s*d(ays?)?$/);
+  if (days) {
+    const since = new Date();
+    since.setDate(since.getDate() - parseInt(days[1], 10));
+    return { from: toLocalDate(since) };
+  }
+
+  const range = value.match(/^(\S*)\s*\.\.\s*(\S*)$/);
+  if (range && (range[1] || range[2]) && [range[1], range[2]].every(d => !d || ISO_DATE.test(d))) {
+    return { from: range[1] || from, to: range[2] || to };
+  }
+  if (ISO_DATE.test(value)) {
+    return { from: value, to: value };
+  }
+
+  return null;
+}
+
+/**
+ * Subscribed journal by ISSN, exact name, or part of its name
+ */
+function findJournal(name: string, journals: JournalConfig[]): JournalConfig | undefined {
+  const wanted = name.toLowerCase();
+  return journals.find(j => j.issn.toLowerCase() === wanted)
+    || journals.find(j => j.name.toLowerCase() === wanted)
+    || journals.find(j => j.name.toLowerCase().includes(wanted));
+}
+
+/**
+ * Parse a code block's source, throwing a CodeBlockError that names the offending line
+ */
+export function parseBlockQuery(source: string, journals: JournalConfig[]): BlockQuery {
+  const query: BlockQuery = {
+    filter: {
+      dateRange: 'custom',
+      journals: [],
+      query: '',
+      searchInAbstracts: true,
+      stemming: false,
+      showState: 'all',
+      sortBy: 'date-desc',
+    },
+    limit: DEFAULT_LIMIT,
+    view: 'list',
+  };
+
+  source.split('\n').forEach((line, index) => {
+    const text = line.trim();
+    if (!text || text.startsWith('#')) return;
+
+    const match = text.match(/^([A-Za-z]+)\s*:\s*(.*)$/);
+    if (!match) {
+      throw new CodeBlockError(`Line ${index + 1}: expected "key: value", e.g. "state: unseen"`);
+    }
+    const key = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    switch (key) {
+      case 'state':
+      case 'status': {
+        const state = value.toLowerCase().replace(/\s+/g, '-') as FilterConfig['showState'];
+        if (!STATES.includes(state)) {
+          throw new CodeBlockError(`Line ${index + 1}: unknown state "${value}" - use ${STATES.join(', ')}`);
+        }
+        query.filter.showState = state;
+        break;
+      }
+      case 'journal':
+      case 'journals':
+        query.filter.journals = value.split(',')
+          .map(name => name.trim())
+          .filter(Boolean)
+          .map(name => {
+            const journal = findJournal(name, journals);
+            if (!journal) {
+              throw new CodeBlockError(`Line ${index + 1}: no subscribed journal matches "${name}"`);
+            }
+            return journal.issn;
+          });
+        break;
+      case 'date': {
+        const range = parseDate(value, query.from, query.to);
+        if (!range) {
+          throw new CodeBlockError(`Line ${index + 1}: unknown date "${value}" - use today, week, month, 3months, a number of days like 14d, or a range like 2024-01-01..2024-03-31`);
+        }
+        query.from = range.from;
+        query.to = range.to;
+        break;
+      }
+      case 'keyword':
+      case 'keywords':
+      case 'query': {
+        const error = validateQuery(value);
+        if (error) {
+          throw new CodeBlockError(`Line ${index + 1}: ${error}`);
+        }
+        query.filter.query = value;
+        break;
+      }
+      case 'sort': {
+        const sort = value.toLowerCase() as FilterConfig['sortBy'];
+        if (!SORTS.includes(sort)) {
+          throw new CodeBlockError(`Line ${index + 1}: unknown sort "${value}" - use ${SORTS.join(', ')}`);
+        }
+        query.filter.sortBy = sort;
+        break;
+      }
+      case 'limit': {
+        const limit = parseInt(value, 10);
+        if (!(limit > 0) || String(limit) !== value) {
+          throw new CodeBlockError(`Line ${index + 1}: limit must be a positive number`);
+        }
+        query.limit = limit;
+        break;
+      }
+      case 'view':
+        if (value !== 'list' && value !== 'table') {
+          throw new CodeBlockError(`Line ${index + 1}: view must be "list" or "table"`);
+        }
+        query.view = value;
+        break;
+      default:
+        throw new CodeBlockError(`Line ${index + 1}: unknown key "${match[1]}" - use state, journal, date, keyword, sort, limit or view`);
+    }
+  });
+
+  return query;
+}
+
+/**
+ * Articles matching a block query, with the total before the limit
+ */
+export function runBlockQuery(
+  query: BlockQuery,
+  articles: Article[],
+  settings: JournalMonitorSettings
+): { articles: Article[]; total: number } {
+  const matching = filterArticles(articles, query.filter, settings.journals)
+    .filter(article => {
+      const date = (article.date || '').substring(0, 10);
+      return (!query.from || date >= query.from) && (!query.to || date <= query.to);
+    });
+
+  return { articles: matching.slice(0, query.limit), total: matching.length };
+}
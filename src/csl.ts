@@ -0,0 +1,672 @@
+import { Article, CitationStyleId } from './types';
+import { toCslJson } from './citation';
+import { parseXml } from './api';
+
+/**
+ * Formatted references from CSL (Citation Style Language) styles.
+ *
+ * Covers the part of CSL 1.0 that journal-article bibliographies need: macros, text, number,
+ * date, names (with substitute), label, group and choose, plus affixes, font style and weight,
+ * quotes and text-case. Terms are English only. Sorting, disambiguation and in-text citations
+ * do not apply to a single reference and are ignored, as are elements this formatter does not know.
+ * Output is Markdown (*italic*, **bold**).
+ */
+
+export type BundledStyleId = Exclude<CitationStyleId, 'custom'>;
+
+export const DEFAULT_CITATION_STYLE: BundledStyleId = 'apa';
+
+export interface CslStyle {
+  title: string;
+  layout: Element;
+  macros: Record<string, Element>;
+  // Name options inherited from <style> and <bibliography>
+  nameOptions: Record<string, string>;
+}
+
+export class CslError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CslError';
+  }
+}
+
+type CslItem = Record<string, unknown>;
+
+interface CslName {
+  family?: string;
+  given?: string;
+  literal?: string;
+}
+
+// Rendered text, with the number of variables called and how many of them had a value (for group suppression)
+interface CslOutput {
+  text: string;
+  called: number;
+  rendered: number;
+}
+
+const EMPTY: CslOutput = { text: '', called: 0, rendered: 0 };
+
+// Guards against macros that call themselves
+const MAX_MACRO_DEPTH = 20;
+
+// Name attributes that may be set on <style>, <citation> or <bibliography>
+const INHERITABLE_NAME_OPTIONS: Record<string, string> = {
+  'and': 'and',
+  'delimiter-precedes-et-al': 'delimiter-precedes-et-al',
+  'delimiter-precedes-last': 'delimiter-precedes-last',
+  'et-al-min': 'et-al-min',
+  'et-al-use-first': 'et-al-use-first',
+  'initialize': 'initialize',
+  'initialize-with': 'initialize-with',
+  'name-as-sort-order': 'name-as-sort-order',
+  'sort-separator': 'sort-separator',
+  'name-form': 'form',
+  'name-delimiter': 'delimiter',
+};
+
+// English terms as [singular, plural]
+const TERMS: Record<string, { long: [string, string]; short?: [string, string] }> = {
+  'and': { long: ['and', 'and'], short: ['&', '&'] },
+  'et-al': { long: ['et al.', 'et al.'] },
+  'no date': { long: ['no date', 'no date'], short: ['n.d.', 'n.d.'] },
+  'in': { long: ['in', 'in'] },
+  'from': { long: ['from', 'from'] },
+  'retrieved': { long: ['retrieved', 'retrieved'] },
+  'accessed': { long: ['accessed', 'accessed'] },
+  'available at': { long: ['available at', 'available at'] },
+  'online': { long: ['online', 'online'] },
+  'page': { long: ['page', 'pages'], short: ['p.', 'pp.'] },
+  'volume': { long: ['volume', 'volumes'], short: ['vol.', 'vols.'] },
+  'issue': { long: ['issue', 'issues'], short: ['no.', 'nos.'] },
+};
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Words left lowercase by text-case="title" unless they start the text
+const TITLE_CASE_STOP_WORDS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'but', 'by', 'for', 'from', 'in', 'into', 'nor', 'of', 'on', 'or', 'the', 'to', 'with',
+]);
+
+// Variables written out as they are, without Markdown escaping
+const RAW_VARIABLES = new Set(['DOI', 'URL']);
+
+// ==================== Bundled styles ====================
+
+const APA_STYLE = `<?xml version="1.0" encoding="utf-8"?>
+<style xmlns="http://purl.org/net/xbiblio/csl" class="in-text" version="1.0">
+  <info><title>APA (7th edition)</title></info>
+  <macro name="author">
+    <names variable="author">
+      <name name-as-sort-order="all" sort-separator=", " initialize-with=". " delimiter=", " and="symbol" delimiter-precedes-last="always" et-al-min="21" et-al-use-first="19"/>
+    </names>
+  </macro>
+  <macro name="issued">
+    <choose>
+      <if variable="issued">
+        <date variable="issued" prefix="(" suffix=")"><date-part name="year"/></date>
+      </if>
+      <else>
+        <text term="no date" form="short" prefix="(" suffix=")"/>
+      </else>
+    </choose>
+  </macro>
+  <macro name="access">
+    <choose>
+      <if variable="DOI">
+        <text variable="DOI" prefix="https://doi.org/"/>
+      </if>
+      <else>
+        <text variable="URL"/>
+      </else>
+    </choose>
+  </macro>
+  <bibliography>
+    <layout>
+      <group delimiter=" ">
+        <text macro="author" suffix="."/>
+        <text macro="issued" suffix="."/>
+        <text variable="title" suffix="."/>
+        <group delimiter=", " suffix=".">
+          <text variable="container-title" font-style="italic"/>
+          <group>
+            <text variable="volume" font-style="italic"/>
+            <text variable="issue" prefix="(" suffix=")"/>
+          </group>
+          <text variable="page"/>
+        </group>
+        <text macro="access"/>
+      </group>
+    </layout>
+  </bibliography>
+</style>`;
+
+const CHICAGO_STYLE = `<?xml version="1.0" encoding="utf-8"?>
+<style xmlns="http://purl.org/net/xbiblio/csl" class="in-text" version="1.0">
+  <info><title>Chicago Manual of Style (17th edition, author-date)</title></info>
+  <macro name="author">
+    <names variable="author">
+      <name name-as-sort-order="first" sort-separator=", " delimiter=", " and="text" delimiter-precedes-last="always" et-al-min="11" et-al-use-first="7"/>
+    </names>
+  </macro>
+  <macro name="access">
+    <choose>
+      <if variable="DOI">
+        <text variable="DOI" prefix="https://doi.org/"/>
+      </if>
+      <else>
+        <text variable="URL"/>
+      </else>
+    </choose>
+  </macro>
+  <bibliography>
+    <layout>
+      <group delimiter=" ">
+        <text macro="author" suffix="."/>
+        <choose>
+          <if variable="issued">
+            <date variable="issued" suffix="."><date-part name="year"/></date>
+          </if>
+          <else>
+            <text term="no date" form="short" suffix="."/>
+          </else>
+        </choose>
+        <text variable="title" quotes="true" suffix="."/>
+        <group suffix=".">
+          <group delimiter=" ">
+            <text variable="container-title" font-style="italic"/>
+            <text variable="volume"/>
+            <text variable="issue" prefix="(" suffix=")"/>
+          </group>
+          <text variable="page" prefix=": "/>
+        </group>
+        <text macro="access" suffix="."/>
+      </group>
+    </layout>
+  </bibliography>
+</style>`;
+
+const NATURE_STYLE = `<?xml version="1.0" encoding="utf-8"?>
+<style xmlns="http://purl.org/net/xbiblio/csl" class="in-text" version="1.0">
+  <info><title>Nature</title></info>
+  <bibliography>
+    <layout>
+      <group delimiter=" ">
+        <names variable="author">
+          <name name-as-sort-order="all" sort-separator=", " initialize-with=". " delimiter=", " and="symbol" delimiter-precedes-last="never" et-al-min="6" et-al-use-first="1"/>
+          <et-al font-style="italic"/>
+        </names>
+        <text variable="title" suffix="."/>
+        <group delimiter=" ">
+          <text variable="container-title" font-style="italic"/>
+          <group delimiter=", ">
+            <text variable="volume" font-weight="bold"/>
+            <text variable="page"/>
+          </group>
+        </group>
+        <date variable="issued" prefix="(" suffix=")."><date-part name="year"/></date>
+      </group>
+    </layout>
+  </bibliography>
+</style>`;
+
+const AGU_STYLE = `<?xml version="1.0" encoding="utf-8"?>
+<style xmlns="http://purl.org/net/xbiblio/csl" class="in-text" version="1.0">
+  <info><title>American Geophysical Union</title></info>
+  <macro name="author">
+    <names variable="author">
+      <name name-as-sort-order="all" sort-separator=", " initialize-with=". " delimiter=", " and="symbol" delimiter-precedes-last="always"/>
+    </names>
+  </macro>
+  <bibliography>
+    <layout>
+      <group delimiter=" ">
+        <text macro="author" suffix="."/>
+        <date variable="issued" prefix="(" suffix=")."><date-part name="year"/></date>
+        <text variable="title" suffix="."/>
+        <group delimiter=", " suffix=".">
+          <text variable="container-title" font-style="italic"/>
+          <group>
+            <text variable="volume" font-style="italic"/>
+            <text variable="issue" prefix="(" suffix=")"/>
+          </group>
+          <text variable="page"/>
+        </group>
+        <choose>
+          <if variable="DOI">
+            <text variable="DOI" prefix="https://doi.org/"/>
+          </if>
+        </choose>
+      </group>
+    </layout>
+  </bibliography>
+</style>`;
+
+export const BUNDLED_STYLES: Record<BundledStyleId, { name: string; xml: string }> = {
+  apa: { name: 'APA 7th edition', xml: APA_STYLE },
+  'chicago-author-date': { name: 'Chicago (author-date)', xml: CHICAGO_STYLE },
+  nature: { name: 'Nature', xml: NATURE_STYLE },
+  agu: { name: 'AGU', xml: AGU_STYLE },
+};
+
+const bundledStyleCache: Partial<Record<BundledStyleId, CslStyle>> = {};
+
+/**
+ * One of the bundled styles, parsed on first use
+ */
+export function getBundledStyle(id: BundledStyleId): CslStyle {
+  const style = bundledStyleCache[id] || parseCslStyle((BUNDLED_STYLES[id] || BUNDLED_STYLES[DEFAULT_CITATION_STYLE]).xml);
+  bundledStyleCache[id] = style;
+  return style;
+}
+
+// ==================== Parsing ====================
+
+function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(el => el.localName === localName);
+}
+
+function childElement(parent: Element, localName: string): Element | undefined {
+  return childElements(parent, localName)[0];
+}
+
+/**
+ * Parse a CSL style, throwing a CslError for invalid XML, dependent styles
+ * or styles without a bibliography (or citation) layout
+ */
+export function parseCslStyle(xml: string): CslStyle {
+  const doc = parseXml(xml);
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new CslError('Not a valid XML file');
+  }
+
+  const root = doc.documentElement;
+  if (!root || root.localName !== 'style') {
+    throw new CslError('Not a CSL style (missing <style> element)');
+  }
+
+  const info = childElement(root, 'info');
+  const title = (info && childElement(info, 'title')?.textContent?.trim()) || 'Untitled style';
+  const section = childElement(root, 'bibliography') || childElement(root, 'citation');
+  const layout = section && childElement(section, 'layout');
+
+  if (!section || !layout) {
+    const isDependent = !!info && childElements(info, 'link').some(link => link.getAttribute('rel') === 'independent-parent');
+    throw new CslError(isDependent
+      ? `"${title}" is a dependent style; use the style it points to instead`
+      : `"${title}" has no bibliography layout`);
+  }
+
+  const macros: Record<string, Element> = {};
+  for (const macro of childElements(root, 'macro')) {
+    const name = macro.getAttribute('name');
+    if (name) macros[name] = macro;
+  }
+
+  const nameOptions: Record<string, string> = {};
+  for (const el of [root, section]) {
+    for (const [attribute, option] of Object.entries(INHERITABLE_NAME_OPTIONS)) {
+      const value = el.getAttribute(attribute);
+      if (value !== null) nameOptions[option] = value;
+    }
+  }
+
+  return { title, layout, macros, nameOptions };
+}
+
+// ==================== Rendering ====================
+
+/**
+ * Format an article as a bibliography entry in the given style (Markdown)
+ */
+export function formatReference(article: Article, style: CslStyle): string {
+  const item = toCslJson(article);
+  const output = renderChildren(style.layout, style, item, 0);
+  return tidyReference(applyFormatting(style.layout, output.text));
+}
+
+function renderChildren(parent: Element, style: CslStyle, item: CslItem, depth: number, delimiter = ''): CslOutput {
+  const outputs = Array.from(parent.children).map(child => renderElement(child, style, item, depth));
+  return {
+    text: outputs.map(o => o.text).filter(Boolean).join(delimiter),
+    called: outputs.reduce((sum, o) => sum + o.called, 0),
+    rendered: outputs.reduce((sum, o) => sum + o.rendered, 0),
+  };
+}
+
+function renderElement(el: Element, style: CslStyle, item: CslItem, depth: number): CslOutput {
+  switch (el.localName) {
+    case 'text':
+      return renderText(el, style, item, depth);
+    case 'number': {
+      const variable = el.getAttribute('variable') || '';
+      const value = getVariable(item, variable);
+      return { text: applyFormatting(el, escapeMarkdown(value)), called: 1, rendered: value ? 1 : 0 };
+    }
+    case 'date':
+      return renderDate(el, item);
+    case 'names':
+      return renderNames(el, style, item, depth);
+    case 'label': {
+      const value = getVariable(item, el.getAttribute('variable') || '');
+      if (!value) return EMPTY;
+      return { text: applyFormatting(el, getTerm(el.getAttribute('variable') || '', el, isPlural(value))), called: 0, rendered: 0 };
+    }
+    case 'group': {
+      const output = renderChildren(el, style, item, depth, el.getAttribute('delimiter') || '');
+      // A group whose variables are all empty is dropped, including its literal text
+      if (output.called > 0 && output.rendered === 0) return { ...output, text: '' };
+      return { ...output, text: applyFormatting(el, output.text) };
+    }
+    case 'choose':
+      return renderChoose(el, style, item, depth);
+    default:
+      return EMPTY;
+  }
+}
+
+function renderText(el: Element, style: CslStyle, item: CslItem, depth: number): CslOutput {
+  const variable = el.getAttribute('variable');
+  if (variable) {
+    let value = getVariable(item, variable, el.getAttribute('form'));
+    if (variable === 'page') value = value.replace(/\s*[-\u2010\u2013]+\s*/g, '–');
+    const text = RAW_VARIABLES.has(variable) ? value : escapeMarkdown(value);
+    return { text: applyFormatting(el, text), called: 1, rendered: value ? 1 : 0 };
+  }
+
+  const macroName = el.getAttribute('macro');
+  if (macroName) {
+    const macro = style.macros[macroName];
+    if (!macro || depth >= MAX_MACRO_DEPTH) return EMPTY;
+    const output = renderChildren(macro, style, item, depth + 1);
+    return { ...output, text: applyFormatting(el, output.text) };
+  }
+
+  const term = el.getAttribute('term');
+  if (term) {
+    return { text: applyFormatting(el, getTerm(term, el, el.getAttribute('plural') === 'true')), called: 0, rendered: 0 };
+  }
+
+  return { text: applyFormatting(el, el.getAttribute('value') || ''), called: 0, rendered: 0 };
+}
+
+function renderChoose(el: Element, style: CslStyle, item: CslItem, depth: number): CslOutput {
+  for (const branch of Array.from(el.children)) {
+    if (branch.localName === 'else' || ((branch.localName === 'if' || branch.localName === 'else-if') && testCondition(branch, item))) {
+      return renderChildren(branch, style, item, depth);
+    }
+  }
+  return EMPTY;
+}
+
+function testCondition(el: Element, item: CslItem): boolean {
+  const results: boolean[] = [];
+  const values = (name: string) => (el.getAttribute(name) || '').split(/\s+/).filter(Boolean);
+
+  for (const type of values('type')) results.push(item.type === type);
+  for (const variable of values('variable')) results.push(hasVariable(item, variable));
+  for (const variable of values('is-numeric')) results.push(/^\d+$/.test(getVariable(item, variable)));
+  // Conditions about cite position, locators and disambiguation never hold for a bibliography entry
+  for (const name of ['position', 'locator', 'disambiguate', 'is-uncertain-date']) {
+    for (let i = 0; i < values(name).length; i++) results.push(false);
+  }
+
+  if (results.length === 0) return false;
+  switch (el.getAttribute('match')) {
+    case 'any':
+      return results.some(Boolean);
+    case 'none':
+      return !results.some(Boolean);
+    default:
+      return results.every(Boolean);
+  }
+}
+
+// ==================== Names ====================
+
+function renderNames(el: Element, style: CslStyle, item: CslItem, depth: number): CslOutput {
+  const variables = (el.getAttribute('variable') || '').split(/\s+/).filter(Boolean);
+  const nameEl = childElement(el, 'name');
+  const etAlEl = childElement(el, 'et-al');
+  const options: Record<string, string> = { ...style.nameOptions };
+  if (nameEl) {
+    for (const attribute of Array.from(nameEl.attributes)) options[attribute.name] = attribute.value;
+  }
+
+  const lists: string[] = [];
+  for (const variable of variables) {
+    const names = item[variable];
+    if (!Array.isArray(names) || names.length === 0) continue;
+    const etAl = etAlEl
+      ? applyFormatting(etAlEl, getTerm(etAlEl.getAttribute('term') || 'et-al', etAlEl, false))
+      : TERMS['et-al'].long[0];
+    const list = formatNameList(names as CslName[], options, etAl);
+    lists.push(nameEl ? applyFormatting(nameEl, list) : list);
+  }
+
+  if (lists.length === 0) {
+    const substitute = childElement(el, 'substitute');
+    for (const child of substitute ? Array.from(substitute.children) : []) {
+      const output = renderElement(child, style, item, depth);
+      if (output.text) return { text: applyFormatting(el, output.text), called: 1, rendered: 1 };
+    }
+    return { text: '', called: Math.max(variables.length, 1), rendered: 0 };
+  }
+
+  return { text: applyFormatting(el, lists.join(el.getAttribute('delimiter') || ', ')), called: variables.length, rendered: 1 };
+}
+
+function formatNameList(names: CslName[], options: Record<string, string>, etAl: string): string {
+  const delimiter = options.delimiter ?? ', ';
+  const etAlMin = parseInt(options['et-al-min']) || 0;
+  const useFirst = parseInt(options['et-al-use-first']) || 1;
+  const truncated = etAlMin > 0 && names.length >= etAlMin && useFirst < names.length;
+
+  const shown = truncated ? names.slice(0, useFirst) : names;
+  const formatted = shown.map((name, i) => formatName(name, i, options));
+  const isInverted = (i: number) => isInvertedName(shown[i], i, options);
+
+  if (truncated) {
+    const precedes = options['delimiter-precedes-et-al'] || 'contextual';
+    const useDelimiter = precedes === 'always'
+      || (precedes === 'contextual' && shown.length > 1)
+      || (precedes === 'after-inverted-name' && isInverted(shown.length - 1));
+    return formatted.join(delimiter) + (useDelimiter ? delimiter : ' ') + etAl;
+  }
+
+  if (formatted.length === 1) return formatted[0];
+
+  const and = options.and === 'symbol' ? '&' : options.and === 'text' ? TERMS.and.long[0] : '';
+  if (!and) return formatted.join(delimiter);
+
+  const precedes = options['delimiter-precedes-last'] || 'contextual';
+  const useDelimiter = precedes === 'always'
+    || (precedes === 'contextual' && formatted.length > 2)
+    || (precedes === 'after-inverted-name' && isInverted(formatted.length - 2));
+  const head = formatted.slice(0, -1).join(delimiter);
+  return `${head}${useDelimiter ? delimiter : ' '}${and} ${formatted[formatted.length - 1]}`;
+}
+
+function isInvertedName(name: CslName, index: number, options: Record<string, string>): boolean {
+  if (name.literal || options.form === 'short') return false;
+  const order = options['name-as-sort-order'];
+  return order === 'all' || (order === 'first' && index === 0);
+}
+
+function formatName(name: CslName, index: number, options: Record<string, string>): string {
+  if (name.literal) return escapeMarkdown(name.literal);
+
+  const family = escapeMarkdown(name.family || '');
+  if (options.form === 'short') return family;
+
+  let given = escapeMarkdown(name.given || '');
+  if (options['initialize-with'] !== undefined && options.initialize !== 'false') {
+    given = initialize(given, options['initialize-with']);
+  }
+  if (!given) return family;
+
+  return isInvertedName(name, index, options)
+    ? `${family}${options['sort-separator'] ?? ', '}${given}`
+    : `${given} ${family}`;
+}
+
+/**
+ * Reduce given names to initials: "Jean-Luc Anne" with ". " gives "J.-L. A."
+ */
+function initialize(given: string, separator: string): string {
+  return given
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => word
+      .split('-')
+      .filter(Boolean)
+      .map(part => part.charAt(0).toUpperCase())
+      .join(`${separator.trim()}-`) + separator)
+    .join('')
+    .trim();
+}
+
+// ==================== Dates ====================
+
+function renderDate(el: Element, item: CslItem): CslOutput {
+  const parts = getDateParts(item[el.getAttribute('variable') || '']);
+  if (!parts) return { text: '', called: 1, rendered: 0 };
+
+  let text: string;
+  const form = el.getAttribute('form');
+  if (form) {
+    // Localized date: en-US "March 5, 2024" or "3/5/2024", limited by date-parts
+    const granularity = el.getAttribute('date-parts') || 'year-month-day';
+    const [year, month, day] = parts;
+    const showMonth = granularity !== 'year' && month !== undefined;
+    const showDay = granularity === 'year-month-day' && showMonth && day !== undefined;
+    if (form === 'numeric') {
+      text = [showMonth ? month : undefined, showDay ? day : undefined, year].filter(p => p !== undefined).join('/');
+    } else {
+      text = `${showMonth ? MONTHS[month - 1] + ' ' : ''}${showDay ? `${day}, ` : ''}${year}`;
+    }
+  } else {
+    const dateParts = childElements(el, 'date-part');
+    text = dateParts.length > 0
+      ? dateParts
+        .map(part => applyFormatting(part, formatDatePart(part, parts)))
+        .filter(Boolean)
+        .join(el.getAttribute('delimiter') || '')
+      : String(parts[0]);
+  }
+
+  return { text: applyFormatting(el, text), called: 1, rendered: 1 };
+}
+
+function formatDatePart(el: Element, parts: number[]): string {
+  const form = el.getAttribute('form');
+  switch (el.getAttribute('name')) {
+    case 'year':
+      return String(parts[0]);
+    case 'month': {
+      const month = parts[1];
+      if (!month || month < 1 || month > 12) return '';
+      if (form === 'numeric') return String(month);
+      if (form === 'numeric-leading-zeros') return String(month).padStart(2, '0');
+      if (form === 'short') return MONTHS[month - 1].length > 4 ? MONTHS[month - 1].substring(0, 3) + '.' : MONTHS[month - 1];
+      return MONTHS[month - 1];
+    }
+    case 'day': {
+      const day = parts[2];
+      if (!day) return '';
+      return form === 'numeric-leading-zeros' ? String(day).padStart(2, '0') : String(day);
+    }
+    default:
+      return '';
+  }
+}
+
+function getDateParts(value: unknown): number[] | null {
+  const dateParts = (value as { 'date-parts'?: unknown[][] } | undefined)?.['date-parts']?.[0];
+  if (!Array.isArray(dateParts) || dateParts.length === 0) return null;
+  const numbers = dateParts.map(Number).filter(n => !isNaN(n) && n > 0);
+  return numbers.length > 0 ? numbers : null;
+}
+
+// ==================== Variables, terms and formatting ====================
+
+function getVariable(item: CslItem, name: string, form?: string | null): string {
+  const value = (form === 'short' && item[`${name}-short`]) || item[name] || (name.endsWith('-short') ? item[name.replace(/-short$/, '')] : '');
+  return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+}
+
+function hasVariable(item: CslItem, name: string): boolean {
+  const value = item[name];
+  if (Array.isArray(value)) return value.length > 0;
+  if (value && typeof value === 'object') return getDateParts(value) !== null;
+  return getVariable(item, name) !== '';
+}
+
+function isPlural(value: string): boolean {
+  return /[-–,&]/.test(value);
+}
+
+function getTerm(name: string, el: Element, plural: boolean): string {
+  const term = TERMS[name];
+  if (!term) return '';
+  const forms = (el.getAttribute('form') === 'short' || el.getAttribute('form') === 'symbol') && term.short ? term.short : term.long;
+  return forms[plural ? 1 : 0];
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\*_])/g, '\\$1');
+}
+
+function applyTextCase(text: string, textCase: string | null): string {
+  switch (textCase) {
+    case 'lowercase':
+      return text.toLowerCase();
+    case 'uppercase':
+      return text.toUpperCase();
+    case 'capitalize-first':
+    case 'sentence':
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    case 'capitalize-all':
+      return text.replace(/(^|\s)(\S)/g, (_, space, letter) => space + letter.toUpperCase());
+    case 'title':
+      return text.replace(/(^|\s)(\S+)/g, (match, space, word, offset) =>
+        offset > 0 && TITLE_CASE_STOP_WORDS.has(word.toLowerCase())
+          ? match
+          : space + word.charAt(0).toUpperCase() + word.slice(1));
+    default:
+      return text;
+  }
+}
+
+/**
+ * Text-case, quotes, font style and weight, then affixes. Empty output stays empty.
+ */
+function applyFormatting(el: Element, text: string): string {
+  if (!text) return '';
+
+  let result = applyTextCase(text, el.getAttribute('text-case'));
+  if (el.getAttribute('strip-periods') === 'true') result = result.replace(/\./g, '');
+  if (el.getAttribute('quotes') === 'true') result = `“${result}”`;
+  if (el.getAttribute('font-style') === 'italic' || el.getAttribute('font-style') === 'oblique') result = `*${result}*`;
+  if (el.getAttribute('font-weight') === 'bold') result = `**${result}**`;
+
+  return `${el.getAttribute('prefix') || ''}${result}${el.getAttribute('suffix') || ''}`;
+}
+
+/**
+ * Clean up punctuation where affixes meet: doubled periods ("Smith, J.."), periods
+ * after "?" or "!", stray spaces, and American-style punctuation inside closing quotes
+ */
+function tidyReference(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')
+    .replace(/”([.,])/g, '$1”')
+    .replace(/(^|[^.])\.\.(?!\.)/g, '$1.')
+    .replace(/([?!])(”?)[.,]/g, '$1$2')
+    .replace(/ ([,.;:])/g, '$1')
+    .trim();
+}
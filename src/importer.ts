@@ -0,0 +1,466 @@
+import { App } from 'obsidian';
+import { Article, JournalConfig } from './types';
+import { extractDoi } from './api';
+import { setArticleState } from './sync';
+import { getFrontmatterDoi } from './utils';
+
+/**
+ * Seeding the article cache from an existing library, so papers the user already has
+ * are marked saved instead of showing up as unseen and being saved again.
+ *
+ * References come from a reference-manager export (.bib, RIS or CSL-JSON, e.g. a
+ * Better BibTeX auto-export from Zotero) and from vault notes with a `doi` in their frontmatter.
+ */
+
+export type LibraryFormat = 'bibtex' | 'ris' | 'csl-json';
+
+export interface SeedResult {
+  // Articles new to the cache, or whose state or note link changed; the caller saves them
+  changed: Article[];
+  added: number;
+  marked: number;
+  linked: number;
+  // References without a DOI, which cannot be matched to fetched articles
+  skipped: number;
+}
+
+// BibTeX entry types that are not references
+const BIBTEX_SPECIAL_ENTRIES = ['comment', 'preamble', 'string'];
+
+// Combining marks for LaTeX accent commands (\"o -> ö)
+const LATEX_ACCENTS: Record<string, string> = {
+  '"': '\u0308',
+  '\'': '\u0301',
+  '`': '\u0300',
+  '^': '\u0302',
+  '~': '\u0303',
+  '=': '\u0304',
+  '.': '\u0307',
+  'c': '\u0327',
+  'v': '\u030c',
+  'u': '\u0306',
+};
+
+const MONTH_ABBREVIATIONS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Library format from a file extension
+ */
+export function getLibraryFormat(path: string): LibraryFormat | null {
+  const extension = path.substring(path.lastIndexOf('.') + 1).toLowerCase();
+  switch (extension) {
+    case 'bib':
+      return 'bibtex';
+    case 'ris':
+      return 'ris';
+    case 'json':
+      return 'csl-json';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read references from a library export. Entries without a DOI are included with an empty `doi`.
+ */
+export function parseLibrary(text: string, format: LibraryFormat): Article[] {
+  switch (format) {
+    case 'bibtex':
+      return parseBibtex(text);
+    case 'ris':
+      return parseRis(text);
+    case 'csl-json':
+      return parseCslJson(text);
+  }
+}
+
+/**
+ * ISO timestamp for a date-added value from a library or note, undefined if it doesn't parse
+ */
+function toTimestamp(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * A saved reference built from imported fields. `savedAt` is kept when the source records
+ * when the paper was added, else it is the import time.
+ */
+function createReference(fields: Partial<Article> & { doi?: string; date?: string }): Article {
+  const date = normalizeDate(fields.date || (fields.year ? String(fields.year) : ''));
+  const now = new Date().toISOString();
+  const savedAt = toTimestamp(fields.savedAt);
+
+  return {
+    title: '',
+    authors: [],
+    journal: '',
+    journalIssn: '',
+    url: '',
+    ...fields,
+    doi: extractDoi(fields.doi) || '',
+    date,
+    year: parseInt(date, 10) || fields.year || 0,
+    state: 'saved',
+    fetchedAt: now,
+    savedAt: savedAt && savedAt < now ? savedAt : now,
+    stateChangedAt: now,
+    importedAt: now,
+  };
+}
+
+/**
+ * YYYY, YYYY-MM or YYYY-MM-DD from "2024", "2024/03/05/" or "2024-3-5"
+ */
+function normalizeDate(value: string): string {
+  const parts = value.split(/[-/\s]+/).filter(Boolean).map(part => parseInt(part, 10)).filter(n => !isNaN(n));
+  if (parts.length === 0) return '';
+  return parts.slice(0, 3).map((part, i) => i === 0 ? String(part) : String(part).padStart(2, '0')).join('-');
+}
+
+// ==================== BibTeX / BibLaTeX ====================
+
+/**
+ * Parse BibTeX or BibLaTeX entries. `@string` macros are not expanded.
+ */
+export function parseBibtex(text: string): Article[] {
+  const references: Article[] = [];
+  const pattern = /@(\w+)\s*[{(]/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const type = match[1].toLowerCase();
+    const body = readBalanced(text, match.index + match[0].length - 1);
+    pattern.lastIndex = match.index + match[0].length + body.length;
+    if (BIBTEX_SPECIAL_ENTRIES.includes(type)) continue;
+
+    const comma = body.indexOf(',');
+    if (comma === -1) continue;
+    const fields = parseBibtexFields(body.substring(comma + 1));
+    const citekey = body.substring(0, comma).trim();
+
+    const pages = fields.pages ? cleanLatex(fields.pages).replace(/\s*[-–]+\s*/g, '-') : undefined;
+    const month = fields.month ? parseMonth(cleanLatex(fields.month)) : 0;
+    const year = parseInt(cleanLatex(fields.year || ''), 10);
+
+    references.push(createReference({
+      doi: fields.doi ? cleanLiteral(fields.doi) : undefined,
+      title: cleanLatex(fields.title || ''),
+      authors: fields.author ? splitBibtexNames(fields.author).map(cleanLatex) : [],
+      journal: cleanLatex(fields.journal || fields.journaltitle || ''),
+      journalIssn: cleanLatex(fields.issn || '').split(/[,\s]+/)[0],
+      volume: fields.volume ? cleanLatex(fields.volume) : undefined,
+      issue: fields.number || fields.issue ? cleanLatex(fields.number || fields.issue) : undefined,
+      pages,
+      date: fields.date ? cleanLatex(fields.date) : year ? `${year}${month ? `-${month}` : ''}` : '',
+      abstract: fields.abstract ? cleanLatex(fields.abstract) : undefined,
+      keywords: fields.keywords ? cleanLatex(fields.keywords).split(/\s*[,;]\s*/).filter(Boolean) : undefined,
+      url: cleanLiteral(fields.url || ''),
+      citekey: citekey || undefined,
+      // Zotero/Better BibTeX, JabRef and BibSonomy names for the date the entry was added
+      savedAt: cleanLiteral(fields['date-added'] || fields.dateadded || fields.timestamp || fields['added-at'] || '') || undefined,
+    }));
+  }
+
+  return references;
+}
+
+/**
+ * Text between the bracket at `start` and its match, exclusive (to the end if unbalanced)
+ */
+function readBalanced(text: string, start: number): string {
+  const open = text[start];
+  const close = open === '(' ? ')' : '}';
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === open || (open === '(' && text[i] === '{')) {
+      depth++;
+    } else if (text[i] === close || (open === '(' && text[i] === '}')) {
+      depth--;
+      if (depth === 0) return text.substring(start + 1, i);
+    }
+  }
+  return text.substring(start + 1);
+}
+
+/**
+ * `name = {value}`, `name = "value"` and `name = 2024` pairs, keyed by lowercase name.
+ * Values joined with `#` are concatenated.
+ */
+function parseBibtexFields(body: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  let i = 0;
+
+  while (i < body.length) {
+    const nameMatch = /^[\s,]*([\w-]+)\s*=\s*/.exec(body.substring(i));
+    if (!nameMatch) break;
+    i += nameMatch[0].length;
+
+    let value = '';
+    for (;;) {
+      if (body[i] === '{') {
+        const inner = readBalanced(body, i);
+        value += inner;
+        i += inner.length + 2;
+      } else if (body[i] === '"') {
+        let depth = 0;
+        let end = i + 1;
+        while (end < body.length && (body[end] !== '"' || depth > 0)) {
+          if (body[end] === '\\') end++;
+          else if (body[end] === '{') depth++;
+          else if (body[end] === '}') depth--;
+          end++;
+        }
+        value += body.substring(i + 1, end);
+        i = end + 1;
+      } else {
+        const bare = /^[^,#}\s]*/.exec(body.substring(i))![0];
+        value += bare;
+        i += bare.length;
+      }
+
+      const next = /^\s*#\s*/.exec(body.substring(i));
+      if (!next) break;
+      i += next[0].length;
+    }
+
+    fields[nameMatch[1].toLowerCase()] = value.trim();
+  }
+
+  return fields;
+}
+
+/**
+ * Split an author field on " and " outside braces, so `{Smith and Sons}` stays one name
+ */
+function splitBibtexNames(value: string): string[] {
+  const names: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '{') depth++;
+    else if (value[i] === '}') depth--;
+    else if (depth === 0 && /^\s+and\s+/i.test(value.substring(i, i + 6))) {
+      names.push(value.substring(start, i));
+      const separator = /^\s+and\s+/i.exec(value.substring(i))![0];
+      i += separator.length - 1;
+      start = i + 1;
+    }
+  }
+  names.push(value.substring(start));
+
+  return names.map(name => name.trim()).filter(Boolean);
+}
+
+/**
+ * Identifiers and links only lose braces and escapes; `~` and `--` are meaningful in URLs
+ */
+function cleanLiteral(value: string): string {
+  return value.replace(/\\([&%$#_{}~])/g, '$1').replace(/[{}]/g, '').trim();
+}
+
+/**
+ * LaTeX markup to plain text: accents, escaped characters, commands and braces
+ */
+function cleanLatex(value: string): string {
+  return value
+    .replace(/\\(["'`^~=.])\s*\{?\\?([a-zA-Z])\}?|\\([cvu])\{\\?([a-zA-Z])\}/g,
+      (match, symbol: string, symbolLetter: string, command: string, commandLetter: string) =>
+        symbol ? symbolLetter + LATEX_ACCENTS[symbol] : commandLetter + LATEX_ACCENTS[command])
+    .normalize('NFC')
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .replace(/\\[a-zA-Z]+\s*/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/---?/g, '–')
+    .replace(/~/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function parseMonth(value: string): number {
+  const number = parseInt(value, 10);
+  if (number >= 1 && number <= 12) return number;
+  return MONTH_ABBREVIATIONS.indexOf(value.substring(0, 3).toLowerCase()) + 1;
+}
+
+// ==================== RIS ====================
+
+/**
+ * Parse RIS records (TY ... ER)
+ */
+export function parseRis(text: string): Article[] {
+  const references: Article[] = [];
+  let record: Record<string, string[]> | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(/^([A-Z][A-Z0-9])\s{1,2}-\s?(.*)$/);
+    if (!match) continue;
+    const [, tag, value] = match;
+
+    if (tag === 'TY') {
+      record = {};
+    } else if (tag === 'ER') {
+      if (record) references.push(risToReference(record));
+      record = null;
+    } else if (record) {
+      (record[tag] || (record[tag] = [])).push(value.trim());
+    }
+  }
+
+  return references;
+}
+
+function risToReference(record: Record<string, string[]>): Article {
+  const first = (...tags: string[]) => tags.map(tag => record[tag]?.[0]).find(value => value) || '';
+  const startPage = first('SP');
+  const endPage = first('EP');
+
+  return createReference({
+    doi: first('DO'),
+    title: first('TI', 'T1'),
+    authors: [...(record.AU || []), ...(record.A1 || [])],
+    journal: first('T2', 'JF', 'JO', 'JA'),
+    journalIssn: first('SN').split(/[,\s]+/)[0],
+    volume: first('VL') || undefined,
+    issue: first('IS') || undefined,
+    pages: startPage ? (endPage ? `${startPage}-${endPage}` : startPage) : undefined,
+    date: first('DA', 'PY', 'Y1'),
+    abstract: first('AB', 'N2') || undefined,
+    keywords: record.KW,
+    url: first('UR'),
+  });
+}
+
+// ==================== CSL-JSON ====================
+
+/**
+ * Parse a CSL-JSON array of items (as exported by Zotero or Better BibTeX)
+ */
+export function parseCslJson(text: string): Article[] {
+  const parsed = JSON.parse(text);
+  const items: Record<string, unknown>[] = Array.isArray(parsed) ? parsed : parsed?.items || [];
+
+  return items.map(item => {
+    const str = (key: string) => typeof item[key] === 'string' || typeof item[key] === 'number' ? String(item[key]) : '';
+    const names = Array.isArray(item.author) ? item.author as { family?: string; given?: string; literal?: string }[] : [];
+    const issued = item.issued as { 'date-parts'?: (string | number)[][]; raw?: string; literal?: string } | undefined;
+
+    return createReference({
+      doi: str('DOI'),
+      title: str('title'),
+      authors: names
+        .map(name => name.literal || (name.given ? `${name.family || ''}, ${name.given}` : name.family || ''))
+        .filter(Boolean),
+      journal: str('container-title'),
+      journalIssn: str('ISSN').split(/[,\s]+/)[0],
+      volume: str('volume') || undefined,
+      issue: str('issue') || undefined,
+      pages: str('page') || undefined,
+      date: issued?.['date-parts']?.[0]?.join('-') || issued?.raw || issued?.literal || '',
+      abstract: str('abstract') || undefined,
+      keywords: str('keyword') ? str('keyword').split(/\s*[,;]\s*/).filter(Boolean) : undefined,
+      url: str('URL'),
+      citekey: str('citation-key') || str('id') || undefined,
+    });
+  });
+}
+
+// ==================== Vault notes ====================
+
+/**
+ * References for vault notes with a DOI in their frontmatter; `savedPath` is the note
+ */
+export function scanVaultNotes(app: App): Article[] {
+  const references: Article[] = [];
+
+  for (const file of app.vault.getMarkdownFiles()) {
+    const doi = getFrontmatterDoi(app, file);
+    if (!doi) continue;
+
+    const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter || {};
+    const text = (value: unknown) => typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+    const authors = frontmatter.authors ?? frontmatter.author;
+
+    references.push(createReference({
+      doi,
+      title: text(frontmatter.title) || file.basename,
+      authors: Array.isArray(authors) ? authors.map(text).filter(Boolean) : text(authors) ? [text(authors)] : [],
+      journal: text(frontmatter.journal),
+      journalIssn: text(frontmatter.issn),
+      date: text(frontmatter.date) || text(frontmatter.year),
+      url: text(frontmatter.url) || `https://doi.org/${doi}`,
+      savedPath: file.path,
+      savedAt: text(frontmatter.saved) || undefined,
+    }));
+  }
+
+  return references;
+}
+
+// ==================== Seeding ====================
+
+/**
+ * Mark the referenced articles as saved in the cache, adding those it does not have yet so
+ * later fetches treat them as known. DOIs match case-insensitively. Existing citation keys
+ * and note links are kept; a reference only fills them in when missing.
+ */
+export function seedSavedArticles(
+  articles: Record<string, Article>,
+  references: Article[],
+  journals: JournalConfig[]
+): SeedResult {
+  const result: SeedResult = { changed: [], added: 0, marked: 0, linked: 0, skipped: 0 };
+  const byDoi = new Map(Object.values(articles).map(article => [article.doi.toLowerCase(), article] as [string, Article]));
+  const changed = new Set<Article>();
+
+  for (const reference of references) {
+    if (!reference.doi) {
+      result.skipped++;
+      continue;
+    }
+
+    let article = byDoi.get(reference.doi.toLowerCase());
+    if (!article) {
+      article = { ...reference, journalIssn: resolveJournalIssn(reference, journals) };
+      articles[article.doi] = article;
+      byDoi.set(article.doi.toLowerCase(), article);
+      changed.add(article);
+      result.added++;
+      if (article.savedPath) result.linked++;
+      continue;
+    }
+
+    if (article.state !== 'saved') {
+      setArticleState(article, 'saved');
+      article.savedAt = reference.savedAt;
+      article.importedAt = reference.importedAt;
+      changed.add(article);
+      result.marked++;
+    }
+    if (!article.citekey && reference.citekey) {
+      article.citekey = reference.citekey;
+      changed.add(article);
+    }
+    if (!article.savedPath && reference.savedPath) {
+      article.savedPath = reference.savedPath;
+      changed.add(article);
+      result.linked++;
+    }
+  }
+
+  result.changed = Array.from(changed);
+  return result;
+}
+
+/**
+ * The followed journal a reference belongs to, by ISSN or name, so filters and statistics group it
+ */
+function resolveJournalIssn(reference: Article, journals: JournalConfig[]): string {
+  const name = reference.journal.toLowerCase();
+  const journal = journals.find(j => (reference.journalIssn && j.issn === reference.journalIssn) || j.name.toLowerCase() === name);
+  return journal ? journal.issn : reference.journalIssn;
+}
@@ -1,25 +1,78 @@
-import { Plugin, Notice, addIcon, TFile, normalizePath } from 'obsidian';
+import { CachedMetadata, Events, Plugin, Notice, addIcon, TAbstractFile, TFile, TFolder, normalizePath } from 'obsidian';
 import {
   JournalMonitorSettings,
   JournalMonitorData,
   DEFAULT_SETTINGS,
   DEFAULT_DATA,
+  DATA_CHANGED_EVENT,
   Article,
+  Feed,
   FilterConfig,
+  FetchRunReport,
+  JournalConfig,
+  JournalRunReport,
 } from './types';
-import { fetchFromOpenAlex, fetchFromCrossRef, backfillAbstracts, getDateRange } from './api';
+import { getJournalProvider, backfillAbstracts, getDateRange, toApiError } from './api';
+import { computeStatistics, mergePluginData, setArticleState, setReadingStatus } from './sync';
+import { getNoteReadingStatus, getReadingStatus } from './reading';
+import { ArticleStore } from './store';
+import { planPrune, expireTombstones, PrunePlan } from './retention';
+import { refreshArticleMetadata, mergeArticleMetadata, planNoteUpdates, applyNoteUpdates } from './refresh';
+import { CITATION_FORMATS, CitationFormat, assignCitekeys, exportBibliography } from './citation';
+import { getLibraryFormat, parseLibrary, scanVaultNotes, seedSavedArticles } from './importer';
+import { CslStyle } from './csl';
+import { CODE_BLOCK_LANGUAGE } from './codeblock';
+import { computeDailyStats } from './stats';
+import { BundleFile, ImportMode, StateBundle, applyStateBundle, createStateBundle, parseStateBundle } from './backup';
 import { 
   filterArticles, 
   hashFilterConfig, 
   generateMasterIndex, 
   generateJournalIndex,
-  ensureFolder 
+  ensureFolder,
+  getFileTimestamp,
+  loadCitationStyle,
+  upgradeFilterConfig,
+  getActiveFeed,
+  getActiveFilter,
+  getBrowsePosition,
+  getFrontmatterDoi,
+  getJournalIndexPath,
+  findNoteByDoi,
+  isDoi
 } from './utils';
 import { BrowseView } from './views/BrowseView';
 import { DiscoveryView } from './views/DiscoveryView';
 import { FilterModal } from './views/FilterModal';
+import { ImportModal } from './views/ImportModal';
+import { ArticleBlock } from './views/ArticleBlock';
+import { StatsView, VIEW_TYPE_STATS } from './views/StatsView';
+import { RefreshModal } from './views/RefreshModal';
 import { JournalMonitorSettingTab } from './views/SettingsTab';
 
+// Number of fetch run reports kept in data.json
+const MAX_RUN_HISTORY = 30;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How often the background scheduler checks whether a fetch is due
+const SCHEDULER_CHECK_MS = 10 * 60 * 1000;
+
+// Article changes are batched into one write after this much quiet time
+const SAVE_DEBOUNCE_MS = 1500;
+
+// data.json versions before this kept the article cache inline
+const SHARDED_STORE_VERSION = 2;
+
+// Automatic snapshots kept in the plugin folder; older ones are deleted
+const MAX_SNAPSHOTS = 5;
+
+// Journal indices are rewritten once changes have been quiet this long
+const INDEX_UPDATE_DEBOUNCE_MS = 5000;
+
+// Deleting a folder deletes its notes one by one; deletions this close together are reported once
+const DELETED_NOTES_BATCH_MS = 1000;
+
 // Custom icon for the ribbon
 const JOURNAL_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20"></path><path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z"></path><line x1="8" y1="6" x2="16" y2="6"></line><line x1="8" y1="10" x2="16" y2="10"></line><line x1="8" y1="14" x2="12" y2="14"></line></svg>`;
 
@@ -29,6 +82,22 @@ export default class JournalMonitorPlugin extends Plugin {
   ribbonIconEl: HTMLElement | null = null;
   startupTimeout: number | null = null;
   statusBarItem: HTMLElement | null = null;
+  // Plugin-level events; code blocks listen here for article data changes
+  events: Events = new Events();
+  // Running fetch, if any; manual and scheduled fetches share it so they never overlap
+  private fetchLock: Promise<void> | null = null;
+  private store: ArticleStore;
+  // Automatic snapshots taken before destructive actions
+  private snapshotFolder: string;
+  private saveTimer: number | null = null;
+  // Writes are chained so a debounced save never interleaves with another
+  private saveQueue: Promise<void> = Promise.resolve();
+  // Saved articles whose notes were just deleted, waiting to be reported together
+  private deletedNotes: Article[] = [];
+  private deletedNotesTimer: number | null = null;
+  // Journals (ISSNs) whose index notes are waiting to be rewritten
+  private pendingJournalIndices: Set<string> = new Set();
+  private journalIndexTimer: number | null = null;
 
   async onload() {
     console.log('Loading Journal Monitor plugin');
@@ -37,8 +106,14 @@ export default class JournalMonitorPlugin extends Plugin {
     addIcon('journal-monitor', JOURNAL_ICON);
 
     // Load settings and data
+    const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    this.store = new ArticleStore(this.app.vault.adapter, pluginDir);
+    this.snapshotFolder = normalizePath(`${pluginDir}/backups`);
     await this.loadSettings();
     await this.loadPluginData();
+    if (this.applyRetention() > 0) {
+      this.savePluginData();
+    }
 
     // Add ribbon icon
     this.ribbonIconEl = this.addRibbonIcon(
@@ -51,6 +126,13 @@ export default class JournalMonitorPlugin extends Plugin {
     // Add settings tab
     this.addSettingTab(new JournalMonitorSettingTab(this.app, this));
 
+    // Live article lists in notes
+    this.registerMarkdownCodeBlockProcessor(CODE_BLOCK_LANGUAGE, (source, el, ctx) => {
+      ctx.addChild(new ArticleBlock(el, this, source, ctx.sourcePath));
+    });
+
+    this.registerView(VIEW_TYPE_STATS, (leaf) => new StatsView(leaf, this));
+
     // Register commands
     this.addCommand({
       id: 'open-browse',
@@ -64,6 +146,12 @@ export default class JournalMonitorPlugin extends Plugin {
       callback: () => this.openDiscoveryView(),
     });
 
+    this.addCommand({
+      id: 'open-statistics',
+      name: 'Open statistics dashboard',
+      callback: () => this.openStatsView(),
+    });
+
     this.addCommand({
       id: 'fetch-articles',
       name: 'Fetch new articles',
@@ -88,15 +176,87 @@ export default class JournalMonitorPlugin extends Plugin {
       callback: () => this.openMasterIndex(),
     });
 
+    this.addCommand({
+      id: 'update-journal-indices',
+      name: 'Update all journal indices',
+      callback: () => this.updateAllJournalIndices(),
+    });
+
+    this.addCommand({
+      id: 'export-bib',
+      name: 'Export saved articles to .bib',
+      callback: () => this.exportBibliography(this.settings.bibExportFormat),
+    });
+
+    this.addCommand({
+      id: 'export-ris',
+      name: 'Export saved articles to RIS',
+      callback: () => this.exportBibliography('ris'),
+    });
+
+    this.addCommand({
+      id: 'export-csl-json',
+      name: 'Export saved articles to CSL-JSON',
+      callback: () => this.exportBibliography('csl-json'),
+    });
+
+    this.addCommand({
+      id: 'import-library',
+      name: 'Import existing library and literature notes',
+      callback: () => this.importExistingLibrary(),
+    });
+
+    this.addCommand({
+      id: 'export-state',
+      name: 'Export plugin state (backup)',
+      callback: () => this.exportState(),
+    });
+
+    this.addCommand({
+      id: 'import-state',
+      name: 'Import plugin state',
+      callback: () => this.openImportModal(),
+    });
+
+    this.addCommand({
+      id: 'refresh-saved-notes',
+      name: 'Refresh metadata of saved notes',
+      callback: () => this.refreshSavedNotes(),
+    });
+
+    for (const feed of this.settings.feeds) {
+      this.registerFeedCommand(feed);
+    }
+
     // Auto-fetch on startup if enabled
     if (this.settings.fetchOnStartup) {
       // Delay to let Obsidian fully load
-      this.startupTimeout = window.setTimeout(() => this.checkAndFetch(), 5000);
+      this.startupTimeout = window.setTimeout(() => this.checkAndFetch(true), 5000);
     }
 
+    // Re-check periodically so daily/weekly/custom schedules fire while the vault stays open
+    this.registerInterval(window.setInterval(() => this.checkAndFetch(false), SCHEDULER_CHECK_MS));
+
     // Add status bar item
     this.statusBarItem = this.addStatusBarItem();
     this.updateStatusBar(this.statusBarItem);
+
+    // Follow reading status edits in saved notes, and catch up on edits made while the plugin was off
+    this.registerEvent(this.app.metadataCache.on('changed', (file, _data, cache) => {
+      const article = this.applyNoteReadingStatus(file, cache);
+      if (article) {
+        this.savePluginData([article]);
+        this.scheduleJournalIndexUpdate([article.journalIssn]);
+      }
+    }));
+    this.app.workspace.onLayoutReady(() => {
+      this.syncSavedPaths();
+      this.syncReadingStatuses();
+    });
+
+    // Keep saved note paths current when notes are moved, renamed or deleted
+    this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.handleNoteRename(file, oldPath)));
+    this.registerEvent(this.app.vault.on('delete', file => this.handleNoteDelete(file)));
   }
 
   onunload() {
@@ -104,6 +264,16 @@ export default class JournalMonitorPlugin extends Plugin {
     if (this.startupTimeout !== null) {
       window.clearTimeout(this.startupTimeout);
     }
+    if (this.deletedNotesTimer !== null) {
+      window.clearTimeout(this.deletedNotesTimer);
+    }
+    if (this.journalIndexTimer !== null) {
+      window.clearTimeout(this.journalIndexTimer);
+    }
+    // Write out any changes still waiting on the debounce
+    if (this.saveTimer !== null || this.store.hasPendingWrites()) {
+      void this.flushPluginData();
+    }
   }
 
   async loadSettings() {
@@ -112,32 +282,517 @@ export default class JournalMonitorPlugin extends Plugin {
     
     // Ensure journals array exists and merge with defaults
     if (!this.settings.journals || this.settings.journals.length === 0) {
-      this.settings.journals = DEFAULT_SETTINGS.journals;
+      this.settings.journals = DEFAULT_SETTINGS.journals.map(journal => ({ ...journal }));
     }
+    this.settings.folderRules = [...this.settings.folderRules];
+    this.settings.currentFilter = upgradeFilterConfig(this.settings.currentFilter);
+    this.settings.feeds = this.settings.feeds.map(feed => ({ ...feed, filter: upgradeFilterConfig(feed.filter) }));
   }
 
   async loadPluginData() {
     const loaded = await this.loadData();
     this.data = Object.assign({}, DEFAULT_DATA, loaded?.data || {});
+    this.data.journalSync = { ...this.data.journalSync };
+    this.data.runs = [...this.data.runs];
+    this.data.tombstones = { ...this.data.tombstones };
+    this.data.feedPositions = { ...this.data.feedPositions };
+    this.data.daily = { ...this.data.daily };
+
+    if (this.isLegacyDataVersion()) {
+      await this.migrateArticleCache();
+    } else {
+      this.data.articles = await this.store.load();
+    }
+    this.data.statistics = computeStatistics(this.data.articles);
+  }
+
+  private isLegacyDataVersion(): boolean {
+    return parseInt(this.data.version, 10) < SHARDED_STORE_VERSION;
+  }
+
+  /**
+   * Move the article cache from data.json (version 1) into the sharded store.
+   * If the shards cannot be written, data.json stays in the old format and the
+   * migration is retried on the next load.
+   */
+  private async migrateArticleCache() {
+    const legacyVersion = this.data.version;
+    this.data.articles = { ...this.data.articles };
+    for (const article of Object.values(this.data.articles)) {
+      this.store.track(article);
+    }
+
+    try {
+      this.data.version = DEFAULT_DATA.version;
+      await this.writePluginData();
+      console.log(`Journal Monitor: Moved ${Object.keys(this.data.articles).length} cached articles out of data.json`);
+    } catch (error) {
+      console.error('Journal Monitor: Article cache migration failed:', error);
+      this.data.version = legacyVersion;
+    }
+  }
+
+  /**
+   * Called by Obsidian when data.json changes on disk, e.g. after Obsidian Sync
+   * or Syncthing delivers a copy written by another device. Merge it into the
+   * in-memory data rather than letting the next save overwrite it.
+   */
+  async onExternalSettingsChange() {
+    const loaded = await this.loadData();
+    if (!loaded) return;
+
+    // Mutate in place: open views and the settings tab hold references to these objects
+    if (loaded.settings) {
+      Object.assign(this.settings, loaded.settings);
+    }
+    if (loaded.data) {
+      // Articles live in the shards, which the other device writes before data.json
+      const remoteArticles = this.isLegacyDataVersion() ? loaded.data.articles || {} : await this.store.readAll();
+      mergePluginData(this.data, { ...loaded.data, articles: remoteArticles });
+
+      // Apply articles pruned on the other device
+      this.removeArticles(Object.values(this.data.articles)
+        .filter(article => this.data.tombstones[article.doi] && article.state !== 'saved'));
+
+      // Only shards whose merged content differs from disk are rewritten,
+      // so two devices don't keep re-triggering each other's merges
+      for (const article of Object.values(this.data.articles)) {
+        const remote = remoteArticles[article.doi];
+        this.store.track(article, !remote || JSON.stringify(remote) !== JSON.stringify(article));
+      }
+      if (this.store.hasPendingWrites()) {
+        this.savePluginData();
+      } else {
+        // Nothing to write back, but merged articles and rollups still change what views show
+        this.events.trigger(DATA_CHANGED_EVENT);
+      }
+    }
+
+    this.updateRibbonBadge();
+    if (this.statusBarItem) {
+      this.updateStatusBar(this.statusBarItem);
+    }
+  }
+
+  /**
+   * Follow a renamed or moved note, or a renamed folder of notes
+   */
+  private handleNoteRename(file: TAbstractFile, oldPath: string) {
+    const changed: Article[] = [];
+    for (const article of Object.values(this.data.articles)) {
+      if (!article.savedPath) continue;
+      if (article.savedPath === oldPath) {
+        article.savedPath = file.path;
+      } else if (file instanceof TFolder && article.savedPath.startsWith(`${oldPath}/`)) {
+        article.savedPath = file.path + article.savedPath.substring(oldPath.length);
+      } else {
+        continue;
+      }
+      changed.push(article);
+    }
+    if (changed.length > 0) {
+      this.savePluginData(changed);
+    }
+  }
+
+  private handleNoteDelete(file: TAbstractFile) {
+    const deleted = Object.values(this.data.articles).filter(article => article.savedPath
+      && (article.savedPath === file.path || file instanceof TFolder && article.savedPath.startsWith(`${file.path}/`)));
+    if (deleted.length === 0) return;
+
+    for (const article of deleted) {
+      delete article.savedPath;
+    }
+    this.savePluginData(deleted);
+    this.handleDeletedNotes(deleted.filter(a => a.state === 'saved'));
+  }
+
+  /**
+   * Apply the deleted-note setting to saved articles that lost their notes
+   */
+  private handleDeletedNotes(articles: Article[]) {
+    if (articles.length === 0) return;
+
+    if (this.settings.deletedNoteAction === 'unsave') {
+      this.unsaveArticles(articles);
+    } else if (this.settings.deletedNoteAction === 'ask') {
+      this.deletedNotes.push(...articles);
+      if (this.deletedNotesTimer !== null) {
+        window.clearTimeout(this.deletedNotesTimer);
+      }
+      this.deletedNotesTimer = window.setTimeout(() => {
+        this.deletedNotesTimer = null;
+        this.offerToUnsave(this.deletedNotes.splice(0));
+      }, DELETED_NOTES_BATCH_MS);
+    }
+  }
+
+  /**
+   * Notice with a button to mark articles whose notes were deleted as no longer saved.
+   * Dismissing it keeps them saved.
+   */
+  private offerToUnsave(articles: Article[]) {
+    const message = articles.length === 1
+      ? `The note for "${articles[0].title.substring(0, 60)}" was deleted.`
+      : `The notes of ${articles.length} saved articles were deleted.`;
+
+    const fragment = createFragment();
+    fragment.createDiv({ text: `${message} ${articles.length === 1 ? 'It is' : 'They are'} still marked as saved.` });
+    const button = fragment.createEl('button', { text: 'Mark as not saved', cls: 'mod-cta' });
+    const notice = new Notice(fragment, 0);
+    button.addEventListener('click', () => {
+      this.unsaveArticles(articles);
+      notice.hide();
+    });
+  }
+
+  /**
+   * Return saved articles to viewed, e.g. after their notes were deleted
+   */
+  private unsaveArticles(articles: Article[]) {
+    const reverted = articles.filter(a => a.state === 'saved' && !a.savedPath);
+    for (const article of reverted) {
+      setArticleState(article, 'viewed');
+      delete article.readingStatus;
+    }
+    if (reverted.length > 0) {
+      this.savePluginData(reverted);
+      this.scheduleJournalIndexUpdate(reverted.map(a => a.journalIssn));
+      new Notice(`Marked ${reverted.length} article${reverted.length === 1 ? '' : 's'} as not saved`);
+    }
+  }
+
+  /**
+   * Catch up on notes moved or deleted while the plugin was not running: missing notes are
+   * looked up by DOI, and the rest are handled like deletions
+   */
+  private syncSavedPaths() {
+    const changed: Article[] = [];
+    const missing: Article[] = [];
+
+    for (const article of Object.values(this.data.articles)) {
+      if (article.state !== 'saved' || !article.savedPath) continue;
+      if (this.app.vault.getAbstractFileByPath(article.savedPath) instanceof TFile) continue;
+
+      const moved = isDoi(article.doi) ? findNoteByDoi(this.app, article.doi) : null;
+      if (moved) {
+        article.savedPath = moved.path;
+      } else {
+        delete article.savedPath;
+        missing.push(article);
+      }
+      changed.push(article);
+    }
+
+    if (changed.length > 0) {
+      this.savePluginData(changed);
+    }
+    this.handleDeletedNotes(missing);
+  }
+
+  /**
+   * Saved article whose note is this file: by its recorded path, else by the note's DOI
+   */
+  private findSavedArticle(file: TFile): Article | null {
+    const saved = Object.values(this.data.articles).filter(a => a.state === 'saved');
+    const byPath = saved.find(a => a.savedPath === file.path);
+    if (byPath) return byPath;
+
+    const doi = getFrontmatterDoi(this.app, file)?.toLowerCase();
+    return doi ? saved.find(a => a.doi.toLowerCase() === doi) || null : null;
+  }
+
+  /**
+   * Copy the reading status recorded in a note to its article. Returns the article if it changed.
+   */
+  private applyNoteReadingStatus(file: TFile, cache: CachedMetadata | null): Article | null {
+    const status = getNoteReadingStatus(cache);
+    if (!status) return null;
+
+    const article = this.findSavedArticle(file);
+    if (!article || getReadingStatus(article) === status && article.readingStatus) return null;
+
+    setReadingStatus(article, status);
+    return article;
+  }
+
+  /**
+   * Reconcile the reading status of every saved article with its note
+   */
+  syncReadingStatuses() {
+    const changed: Article[] = [];
+    for (const article of Object.values(this.data.articles)) {
+      if (article.state !== 'saved' || !article.savedPath) continue;
+      const file = this.app.vault.getAbstractFileByPath(article.savedPath);
+      if (!(file instanceof TFile)) continue;
+
+      if (this.applyNoteReadingStatus(file, this.app.metadataCache.getFileCache(file))) {
+        changed.push(article);
+      }
+    }
+    if (changed.length > 0) {
+      this.savePluginData(changed);
+    }
   }
 
   async saveSettings() {
     await this.saveData({
       settings: this.settings,
-      data: this.data,
+      data: this.serializeData(),
     });
+    this.events.trigger(DATA_CHANGED_EVENT);
+  }
+
+  /**
+   * Schedule a save of plugin data. Pass the articles that changed so only
+   * their shards are rewritten; calls within the debounce window are batched.
+   */
+  savePluginData(changed: Article[] = []) {
+    for (const article of changed) {
+      this.store.track(article);
+    }
+
+    if (this.saveTimer !== null) {
+      window.clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = window.setTimeout(() => {
+      this.saveTimer = null;
+      void this.flushPluginData();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  /**
+   * Write pending changes now instead of waiting for the debounce
+   */
+  flushPluginData(): Promise<void> {
+    if (this.saveTimer !== null) {
+      window.clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    this.saveQueue = this.saveQueue
+      .then(() => this.writePluginData())
+      .catch(error => {
+        console.error('Journal Monitor: Error saving data:', error);
+        new Notice('Journal Monitor: could not save article data');
+      });
+    return this.saveQueue;
   }
 
-  async savePluginData() {
+  private async writePluginData() {
+    this.data.statistics = computeStatistics(this.data.articles);
+    this.data.daily = computeDailyStats(this.data.articles, this.data.daily);
+    if (!this.isLegacyDataVersion()) {
+      await this.store.flush(this.data.articles);
+    }
     await this.saveData({
       settings: this.settings,
-      data: this.data,
+      data: this.serializeData(),
     });
+    // Live code blocks and the statistics dashboard render from article data
+    this.events.trigger(DATA_CHANGED_EVENT);
+  }
+
+  /**
+   * data.json contents: everything except the article cache, which lives in the shards
+   */
+  private serializeData(): JournalMonitorData {
+    if (this.isLegacyDataVersion()) return this.data;
+    return { ...this.data, articles: {} };
   }
 
-  async resetSettings() {
+  /**
+   * Remove all fetched articles and their shards (saved notes are not affected).
+   * Returns false, leaving the cache alone, if the snapshot taken first fails.
+   */
+  async clearArticleCache(): Promise<boolean> {
+    if (!await this.takeSnapshot('before-clear-cache')) return false;
+
+    this.data.articles = {};
+    this.data.browsePosition = { currentDoi: null, filterHash: '', scrollIndex: 0 };
+    this.data.feedPositions = {};
+    this.data.journalSync = {};
+    this.data.tombstones = {};
+    if (!this.isLegacyDataVersion()) {
+      await this.store.clear();
+    }
+    await this.flushPluginData();
+    return true;
+  }
+
+  /**
+   * Restore default settings after taking a snapshot. Returns false if the snapshot failed.
+   */
+  async resetSettings(): Promise<boolean> {
+    if (!await this.takeSnapshot('before-reset-settings')) return false;
+
+    // Copy the array and object defaults, or editing journals or feeds would change the defaults themselves
     this.settings = Object.assign({}, DEFAULT_SETTINGS);
+    this.settings.journals = DEFAULT_SETTINGS.journals.map(journal => ({ ...journal }));
+    this.settings.folderRules = [];
+    this.settings.currentFilter = upgradeFilterConfig(DEFAULT_SETTINGS.currentFilter);
+    this.settings.feeds = [];
     await this.saveSettings();
+    return true;
+  }
+
+  /**
+   * Mark papers the user already has as saved: the entries of the library export
+   * and vault notes with a DOI in their frontmatter, which become their saved notes
+   */
+  async importExistingLibrary() {
+    const references: Article[] = [];
+
+    const path = this.settings.libraryPath.trim();
+    if (path) {
+      const file = this.app.vault.getAbstractFileByPath(normalizePath(path));
+      const format = getLibraryFormat(path);
+      if (!(file instanceof TFile) || !format) {
+        new Notice(`Library file not found or not a .bib, .ris or .json file: ${path}`);
+        return;
+      }
+
+      try {
+        references.push(...parseLibrary(await this.app.vault.cachedRead(file), format));
+      } catch (error) {
+        console.error('Error reading library:', error);
+        new Notice(`Could not read library file ${path}`);
+        return;
+      }
+    }
+
+    references.push(...scanVaultNotes(this.app));
+    const result = seedSavedArticles(this.data.articles, references, this.settings.journals);
+    this.savePluginData(result.changed);
+
+    this.updateRibbonBadge();
+    if (this.statusBarItem) {
+      this.updateStatusBar(this.statusBarItem);
+    }
+
+    const skipped = result.skipped > 0 ? `; ${result.skipped} entries without a DOI were skipped` : '';
+    new Notice(`Library import: ${result.added} articles added and ${result.marked} marked as saved, ${result.linked} linked to existing notes${skipped}`);
+  }
+
+  /**
+   * Write settings and data as a bundle into the backup folder
+   */
+  async exportState() {
+    try {
+      const folderPath = normalizePath(this.settings.backupFolder || DEFAULT_SETTINGS.backupFolder);
+      await ensureFolder(this.app, folderPath);
+
+      const path = normalizePath(`${folderPath}/journal-monitor-${getFileTimestamp()}.json`);
+      const bundle = createStateBundle(this.settings, this.data, this.manifest.version);
+      await this.app.vault.create(path, JSON.stringify(bundle, null, 2));
+
+      new Notice(`Exported ${Object.keys(bundle.data.articles).length} articles and settings to ${path}`);
+    } catch (error) {
+      console.error('Error exporting state:', error);
+      new Notice('Error exporting plugin state');
+    }
+  }
+
+  /**
+   * Save a bundle into the plugin folder before a destructive action, keeping the
+   * latest few. Returns false (after a notice) if it could not be written.
+   */
+  async takeSnapshot(reason: string): Promise<boolean> {
+    const adapter = this.app.vault.adapter;
+    try {
+      if (!await adapter.exists(this.snapshotFolder)) {
+        await adapter.mkdir(this.snapshotFolder);
+      }
+
+      const bundle = createStateBundle(this.settings, this.data, this.manifest.version, reason);
+      await adapter.write(`${this.snapshotFolder}/${getFileTimestamp()}-${reason}.json`, JSON.stringify(bundle));
+
+      const snapshots = (await adapter.list(this.snapshotFolder)).files
+        .filter(path => path.endsWith('.json'))
+        .sort();
+      for (const path of snapshots.slice(0, Math.max(0, snapshots.length - MAX_SNAPSHOTS))) {
+        await adapter.remove(path);
+      }
+      return true;
+    } catch (error) {
+      console.error('Journal Monitor: Could not take snapshot:', error);
+      new Notice('Could not save a snapshot of the plugin state; nothing was changed');
+      return false;
+    }
+  }
+
+  /**
+   * Bundles available to import: exports in the backup folder and automatic snapshots, newest first.
+   * Files that are not valid bundles are skipped.
+   */
+  async listStateBundles(): Promise<BundleFile[]> {
+    const adapter = this.app.vault.adapter;
+    const candidates: { path: string; snapshot: boolean }[] = [];
+
+    const folder = this.app.vault.getAbstractFileByPath(normalizePath(this.settings.backupFolder || DEFAULT_SETTINGS.backupFolder));
+    if (folder instanceof TFolder) {
+      for (const file of folder.children) {
+        if (file instanceof TFile && file.extension === 'json') {
+          candidates.push({ path: file.path, snapshot: false });
+        }
+      }
+    }
+    if (await adapter.exists(this.snapshotFolder)) {
+      for (const path of (await adapter.list(this.snapshotFolder)).files) {
+        if (path.endsWith('.json')) candidates.push({ path, snapshot: true });
+      }
+    }
+
+    const bundles: BundleFile[] = [];
+    for (const candidate of candidates) {
+      try {
+        bundles.push({ ...candidate, bundle: parseStateBundle(await adapter.read(candidate.path)) });
+      } catch (error) {
+        console.log(`Journal Monitor: Skipping ${candidate.path}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return bundles.sort((a, b) => b.bundle.exportedAt.localeCompare(a.bundle.exportedAt));
+  }
+
+  async openImportModal() {
+    const bundles = await this.listStateBundles();
+    if (bundles.length === 0) {
+      new Notice(`No backups found. Put an exported .json file in ${this.settings.backupFolder || DEFAULT_SETTINGS.backupFolder}.`);
+      return;
+    }
+    new ImportModal(this.app, bundles, (bundle, mode) => this.importState(bundle, mode)).open();
+  }
+
+  /**
+   * Merge a bundle into, or replace, the current state. A snapshot is taken first.
+   */
+  async importState(bundle: StateBundle, mode: ImportMode): Promise<boolean> {
+    if (!await this.takeSnapshot('before-import')) return false;
+
+    applyStateBundle(this.settings, this.data, bundle, mode);
+    for (const feed of this.settings.feeds) {
+      this.registerFeedCommand(feed);
+    }
+
+    if (mode === 'replace' && !this.isLegacyDataVersion()) {
+      await this.store.clear();
+    } else {
+      // Tombstones from the bundle remove articles it pruned
+      this.removeArticles(Object.values(this.data.articles)
+        .filter(article => this.data.tombstones[article.doi] && article.state !== 'saved'));
+    }
+    for (const article of Object.values(this.data.articles)) {
+      this.store.track(article);
+    }
+    await this.flushPluginData();
+
+    this.updateRibbonBadge();
+    if (this.statusBarItem) {
+      this.updateStatusBar(this.statusBarItem);
+    }
+    new Notice(`Imported ${Object.keys(bundle.data.articles).length} articles (${mode})`);
+    return true;
   }
 
   updateRibbonBadge() {
@@ -172,28 +827,103 @@ export default class JournalMonitorPlugin extends Plugin {
     }
   }
 
+  /**
+   * Show the statistics dashboard in a tab, reusing an open one
+   */
+  async openStatsView() {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(VIEW_TYPE_STATS)[0];
+    if (!leaf) {
+      leaf = workspace.getLeaf('tab');
+      await leaf.setViewState({ type: VIEW_TYPE_STATS, active: true });
+    }
+    workspace.revealLeaf(leaf);
+  }
+
   openBrowseView() {
     const modal = new BrowseView(
       this.app,
       this.settings,
       this.data,
-      () => {
-        this.savePluginData();
+      (article?: Article) => {
+        this.savePluginData(article ? [article] : []);
+        if (article && (article.state === 'saved' || article.state === 'skipped')) {
+          this.scheduleJournalIndexUpdate([article.journalIssn]);
+        }
         if (this.statusBarItem) {
           this.updateStatusBar(this.statusBarItem);
         }
       },
-      () => this.openFilterModal()
+      () => this.openFilterModal(),
+      (feedId: string) => this.openFeed(feedId)
     );
     modal.open();
   }
 
+  /**
+   * Switch the browser to a feed ('' for the default feed) and open it
+   */
+  async openFeed(feedId: string) {
+    if (feedId && !this.settings.feeds.some(f => f.id === feedId)) {
+      new Notice('This feed no longer exists');
+      return;
+    }
+    this.settings.activeFeedId = feedId;
+    await this.saveSettings();
+    this.openBrowseView();
+  }
+
+  /**
+   * Add a named feed with a copy of the given filter and make it the active feed
+   */
+  async createFeed(name: string, filter: FilterConfig): Promise<Feed> {
+    const feed: Feed = {
+      id: `feed-${Date.now().toString(36)}`,
+      name,
+      filter: { ...filter, journals: [...filter.journals] },
+    };
+    this.settings.feeds.push(feed);
+    this.settings.activeFeedId = feed.id;
+    this.registerFeedCommand(feed);
+    await this.saveSettings();
+    return feed;
+  }
+
+  async deleteFeed(feedId: string) {
+    this.settings.feeds = this.settings.feeds.filter(f => f.id !== feedId);
+    if (this.settings.activeFeedId === feedId) {
+      this.settings.activeFeedId = '';
+    }
+    delete this.data.feedPositions[feedId];
+    await this.saveSettings();
+    this.savePluginData();
+  }
+
+  /**
+   * Command that opens a feed, so it can be bound to a hotkey. Registering it again after a
+   * rename replaces it; once the feed is deleted it no longer shows in the palette.
+   */
+  registerFeedCommand(feed: Feed) {
+    this.addCommand({
+      id: `open-${feed.id}`,
+      name: `Open feed: ${feed.name}`,
+      checkCallback: (checking: boolean) => {
+        if (!this.settings.feeds.some(f => f.id === feed.id)) return false;
+        if (!checking) this.openFeed(feed.id);
+        return true;
+      },
+    });
+  }
+
   openDiscoveryView() {
     const modal = new DiscoveryView(
       this.app,
       this.settings,
       this.data,
-      () => this.savePluginData()
+      (article: Article) => {
+        this.savePluginData([article]);
+        this.scheduleJournalIndexUpdate([article.journalIssn]);
+      }
     );
     modal.open();
   }
@@ -201,7 +931,7 @@ export default class JournalMonitorPlugin extends Plugin {
   openFilterModal() {
     const articleCount = filterArticles(
       Object.values(this.data.articles),
-      this.settings.currentFilter,
+      getActiveFilter(this.settings),
       this.settings.journals.filter(j => j.enabled)
     ).length;
 
@@ -210,132 +940,271 @@ export default class JournalMonitorPlugin extends Plugin {
       this.settings,
       articleCount,
       async (filter: FilterConfig) => {
-        this.settings.currentFilter = filter;
-        this.data.browsePosition.filterHash = hashFilterConfig(filter);
-        this.data.browsePosition.scrollIndex = 0;
+        const feed = getActiveFeed(this.settings);
+        if (feed) {
+          feed.filter = filter;
+        } else {
+          this.settings.currentFilter = filter;
+        }
+        const position = getBrowsePosition(this.data, this.settings.activeFeedId);
+        position.filterHash = hashFilterConfig(filter);
+        position.scrollIndex = 0;
+        position.currentDoi = null;
         await this.saveSettings();
         this.openBrowseView();
+      },
+      async (name: string, filter: FilterConfig) => {
+        await this.createFeed(name, filter);
+        this.openBrowseView();
       }
     );
     modal.open();
   }
 
-  async checkAndFetch() {
-    const now = new Date();
-    const lastFetch = this.data.lastFetch ? new Date(this.data.lastFetch) : null;
-
-    let shouldFetch = false;
-
+  /**
+   * Interval between automatic fetches, or null when only startup/manual fetching is configured
+   */
+  getAutoFetchIntervalMs(): number | null {
     switch (this.settings.autoFetchFrequency) {
-      case 'startup':
-        shouldFetch = true;
-        break;
       case 'daily':
-        if (!lastFetch || (now.getTime() - lastFetch.getTime()) > 24 * 60 * 60 * 1000) {
-          shouldFetch = true;
-        }
-        break;
+        return 24 * HOUR_MS;
       case 'weekly':
-        if (!lastFetch || (now.getTime() - lastFetch.getTime()) > 7 * 24 * 60 * 60 * 1000) {
-          shouldFetch = true;
-        }
-        break;
-      case 'manual':
-        shouldFetch = false;
-        break;
+        return 7 * 24 * HOUR_MS;
+      case 'custom':
+        return Math.max(1, this.settings.autoFetchIntervalHours) * HOUR_MS;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Fetch in the background if a fetch is due
+   */
+  async checkAndFetch(atStartup: boolean) {
+    if (this.fetchLock) return;
+
+    if (this.settings.autoFetchFrequency === 'startup') {
+      if (atStartup) await this.fetchArticles(undefined, true);
+      return;
+    }
+
+    const interval = this.getAutoFetchIntervalMs();
+    if (interval === null) return;
+
+    const now = Date.now();
+    const lastFetch = this.data.lastFetch ? new Date(this.data.lastFetch).getTime() : 0;
+    if (now - lastFetch < interval) return;
+
+    // lastFetch only moves on fully successful runs; don't retry a failing run more than hourly
+    const lastRun = this.data.runs[0];
+    if (lastRun && now - new Date(lastRun.startedAt).getTime() < Math.min(interval, HOUR_MS)) return;
+
+    await this.fetchArticles(undefined, true);
+  }
+
+  /**
+   * Fetch new articles for all enabled journals, or only the given ones.
+   * Only one fetch runs at a time; background runs stay quiet unless something was found or failed.
+   */
+  async fetchArticles(journals?: JournalConfig[], background: boolean = false) {
+    if (this.fetchLock) {
+      if (!background) new Notice('A fetch is already running.');
+      return;
     }
 
-    if (shouldFetch) {
-      await this.fetchArticles();
+    this.fetchLock = this.runFetch(journals, background);
+    try {
+      await this.fetchLock;
+    } finally {
+      this.fetchLock = null;
     }
   }
 
-  async fetchArticles() {
-    const enabledJournals = this.settings.journals.filter(j => j.enabled);
+  private async runFetch(journals: JournalConfig[] | undefined, background: boolean) {
+    const enabledJournals = journals || this.settings.journals.filter(j => j.enabled);
     
     if (enabledJournals.length === 0) {
-      new Notice('No journals enabled. Enable journals in settings.');
+      if (!background) new Notice('No journals enabled. Enable journals in settings.');
       return;
     }
 
-    new Notice(`Fetching articles from ${enabledJournals.length} journals...`);
+    if (!background) {
+      new Notice(`Fetching articles from ${enabledJournals.length} journals...`);
+    }
 
     const { from, to } = getDateRange('custom', 
       this.getDateDaysAgo(this.settings.lookbackDays),
       new Date().toISOString().split('T')[0]
     );
 
-    let newArticleCount = 0;
-    let totalFetched = 0;
+    const run: FetchRunReport = {
+      startedAt: new Date().toISOString(),
+      finishedAt: '',
+      provider: this.settings.apiProvider,
+      journals: [],
+    };
+    // New articles from providers that often lack abstracts, to backfill from CrossRef
+    const missingAbstracts: Article[] = [];
+
+    // Journals are fetched concurrently; apiRequest throttles each host
+    await Promise.all(enabledJournals.map(async journal => {
+      // Only ask for works added since the last successful fetch of this journal;
+      // journals never fetched before fall back to the lookback window
+      const since = this.data.journalSync[journal.issn]?.lastSuccessfulFetch;
+      const startedAt = new Date().toISOString();
+      const provider = getJournalProvider(journal, this.settings);
+      const report: JournalRunReport = {
+        issn: journal.issn,
+        name: journal.name,
+        provider: provider.id,
+        fetched: 0,
+        added: 0,
+        duplicates: 0,
+        failed: false,
+        truncated: false,
+      };
+      run.journals.push(report);
 
-    for (const journal of enabledJournals) {
       try {
-        let articles: Article[];
-
-        if (this.settings.apiProvider === 'openalex') {
-          articles = await fetchFromOpenAlex(
-            journal,
-            from,
-            to,
-            this.settings.articlesPerFetch,
-            this.settings.openAlexEmail
-          );
+        const result = await provider.fetchJournal(journal, {
+          fromDate: from,
+          toDate: to,
+          since,
+          pageSize: this.settings.articlesPerFetch,
+          maxArticles: this.settings.maxArticlesPerJournal,
+        });
+
+        report.fetched = result.articles.length;
+        report.truncated = result.truncated;
+
+        if (result.error) {
+          // Keep whatever pages arrived, but leave the watermark so the next run retries
+          report.failed = true;
+          report.error = result.error.message;
+        } else if (result.truncated) {
+          // Incremental fetches come oldest first by created/indexed date, so continue from the
+          // last work retrieved; never past the start of this fetch. Otherwise keep the watermark.
+          if (since && result.resumeFrom) {
+            const resumeFrom = new Date(result.resumeFrom).toISOString();
+            this.data.journalSync[journal.issn] = {
+              lastSuccessfulFetch: resumeFrom < startedAt ? resumeFrom : startedAt,
+            };
+          }
+          console.log(`Journal Monitor: ${journal.name}: ${result.articles.length} of ${result.total} fetched`);
+          report.error = result.resumeFrom
+            ? `${result.articles.length} of ${result.total} fetched; the rest follow on the next fetch`
+            : `${result.articles.length} of ${result.total} fetched`;
         } else {
-          articles = await fetchFromCrossRef(
-            journal,
-            from,
-            to,
-            this.settings.articlesPerFetch,
-            this.settings.crossRefEmail
-          );
+          // Everything since the watermark was retrieved, so it is safe to move it forward
+          this.data.journalSync[journal.issn] = { lastSuccessfulFetch: startedAt };
         }
 
-        totalFetched += articles.length;
-
-        for (const article of articles) {
-          if (!this.data.articles[article.doi]) {
-            this.data.articles[article.doi] = article;
-            newArticleCount++;
+        for (const article of result.articles) {
+          // Tombstoned articles were pruned on purpose; treat them as already seen
+          if (this.data.articles[article.doi] || this.data.tombstones[article.doi]) {
+            report.duplicates++;
+            continue;
+          }
 
-            // Update journal stats
-            if (!this.data.statistics.byJournal[journal.issn]) {
-              this.data.statistics.byJournal[journal.issn] = { fetched: 0, saved: 0, skipped: 0 };
-            }
-            this.data.statistics.byJournal[journal.issn].fetched++;
+          this.data.articles[article.doi] = article;
+          this.store.track(article);
+          report.added++;
+          if (!article.abstract && ['openalex', 'semanticscholar', 'rss'].includes(provider.id)) {
+            missingAbstracts.push(article);
           }
         }
 
       } catch (error) {
         console.error(`Error fetching from ${journal.name}:`, error);
+        report.failed = true;
+        report.error = toApiError(error).message;
       }
-    }
+    }));
 
-    this.data.lastFetch = new Date().toISOString();
-    this.data.statistics.totalFetched += newArticleCount;
+    const newArticleCount = run.journals.reduce((sum, j) => sum + j.added, 0);
+    const failed = run.journals.filter(j => j.failed);
+    const truncated = run.journals.filter(j => j.truncated && !j.failed);
+
+    // A run with failures is not a successful sync; leave lastFetch so the next check retries
+    if (failed.length === 0) {
+      this.data.lastFetch = new Date().toISOString();
+    }
 
     // Backfill missing abstracts from CrossRef (OpenAlex often lacks them for paywalled journals)
-    if (newArticleCount > 0 && this.settings.apiProvider === 'openalex') {
-      const newArticles = Object.values(this.data.articles).filter(a => !a.abstract && a.fetchedAt === this.data.lastFetch);
-      if (newArticles.length > 0) {
-        const filled = await backfillAbstracts(newArticles);
-        if (filled > 0) {
-          console.log(`Journal Monitor: Backfilled ${filled} abstracts from CrossRef`);
-        }
+    if (missingAbstracts.length > 0) {
+      const filled = await backfillAbstracts(missingAbstracts);
+      if (filled > 0) {
+        console.log(`Journal Monitor: Backfilled ${filled} abstracts from CrossRef`);
       }
     }
 
-    await this.savePluginData();
+    // Keep journals in subscription order for the report
+    run.journals.sort((a, b) =>
+      enabledJournals.findIndex(j => j.issn === a.issn) - enabledJournals.findIndex(j => j.issn === b.issn)
+    );
+    run.finishedAt = new Date().toISOString();
+    this.data.runs = [run, ...this.data.runs].slice(0, MAX_RUN_HISTORY);
+
+    this.applyRetention();
+
+    // One batched write for the whole run (backfilled abstracts are in the same shards)
+    await this.flushPluginData();
     this.updateRibbonBadge();
     
     if (this.statusBarItem) {
       this.updateStatusBar(this.statusBarItem);
     }
 
+    this.scheduleJournalIndexUpdate(run.journals.filter(j => j.added > 0).map(j => j.issn));
+
     if (this.settings.notifyOnNewArticles && newArticleCount > 0) {
       new Notice(`Found ${newArticleCount} new articles!`);
-    } else if (newArticleCount === 0) {
+    } else if (newArticleCount === 0 && failed.length === 0 && !background) {
       new Notice('No new articles found.');
     }
+
+    if (failed.length > 0) {
+      new Notice(
+        `Fetch failed for ${failed.length} of ${enabledJournals.length} journals:\n` +
+        failed.map(j => `${j.name}: ${j.error}`).join('\n') +
+        '\nSee Sync Health in settings to retry.',
+        15000
+      );
+    }
+
+    if (truncated.length > 0 && !background) {
+      new Notice(`Per-journal limit reached:\n${truncated.map(j => `${j.name}: ${j.error}`).join('\n')}`, 10000);
+    }
+  }
+
+  /**
+   * Most recent report of each configured journal, in subscription order. A retry or a fetch
+   * of selected journals records a run with only those, so earlier runs fill in the rest.
+   */
+  getLatestJournalReports(): JournalRunReport[] {
+    const reports: JournalRunReport[] = [];
+    for (const journal of this.settings.journals) {
+      const report = this.data.runs
+        .map(run => run.journals.find(j => j.issn === journal.issn))
+        .find(j => !!j);
+      if (report) reports.push(report);
+    }
+    return reports;
+  }
+
+  /**
+   * Re-run the fetch for journals whose most recent fetch failed
+   */
+  async retryFailedJournals() {
+    const failedIssns = this.getLatestJournalReports().filter(j => j.failed).map(j => j.issn);
+    const journals = this.settings.journals.filter(j => failedIssns.includes(j.issn));
+
+    if (journals.length === 0) {
+      new Notice('No failed journals to retry.');
+      return;
+    }
+
+    await this.fetchArticles(journals);
   }
 
   private getDateDaysAgo(days: number): string {
@@ -344,9 +1213,137 @@ export default class JournalMonitorPlugin extends Plugin {
     return date.toISOString().split('T')[0];
   }
 
+  /**
+   * Cached articles the retention settings would remove now
+   */
+  getPrunePlan(): PrunePlan {
+    return planPrune(Object.values(this.data.articles), this.settings);
+  }
+
+  /**
+   * Remove expired articles (by default, whatever the retention settings select now).
+   * Returns the number removed; the caller saves.
+   */
+  applyRetention(plan: PrunePlan = this.getPrunePlan()): number {
+    const expired = [...plan.skipped, ...plan.viewed];
+    this.removeArticles(expired);
+    expireTombstones(this.data.tombstones);
+    return expired.length;
+  }
+
+  /**
+   * Remove articles from the cache and tombstone them so later fetches skip them
+   */
+  removeArticles(articles: Article[]) {
+    const removedAt = new Date().toISOString();
+    for (const article of articles) {
+      delete this.data.articles[article.doi];
+      this.data.tombstones[article.doi] = removedAt;
+      this.store.remove(article);
+    }
+  }
+
+  async resetSyncWatermarks() {
+    this.data.journalSync = {};
+    await this.flushPluginData();
+  }
+
+  /**
+   * Re-fetch metadata for saved articles, then preview and apply the resulting note changes.
+   * Refreshed metadata is only cached for the notes the user updates.
+   */
+  async refreshSavedNotes() {
+    const saved = Object.values(this.data.articles).filter(a => a.state === 'saved' && a.savedPath);
+    if (saved.length === 0) {
+      new Notice('No saved articles to refresh.');
+      return;
+    }
+
+    const notice = new Notice(`Refreshing metadata for ${saved.length} saved articles...`, 0);
+    try {
+      const result = await refreshArticleMetadata(saved, this.settings);
+      const refreshed = saved.map(article => result.updated.find(a => a.doi === article.doi) || article);
+
+      const updates = await planNoteUpdates(this.app, refreshed, this.settings);
+      notice.hide();
+
+      if (result.failed > 0) {
+        new Notice(`Could not refresh ${result.failed} articles; see the console for details.`);
+      }
+      if (updates.length === 0) {
+        new Notice('Saved notes are up to date.');
+        return;
+      }
+
+      new RefreshModal(this.app, updates, async (selected) => {
+        const { applied, skipped } = await applyNoteUpdates(this.app, selected);
+        const changed: Article[] = [];
+        for (const update of applied) {
+          const article = this.data.articles[update.article.doi];
+          if (article && mergeArticleMetadata(article, update.article)) changed.push(article);
+        }
+        if (changed.length > 0) {
+          this.savePluginData(changed);
+        }
+        new Notice(`Updated ${applied.length} notes` + (skipped > 0 ? ` (${skipped} skipped: edited since the preview)` : ''));
+      }).open();
+    } catch (error) {
+      notice.hide();
+      console.error('Error refreshing saved notes:', error);
+      new Notice('Error refreshing saved notes');
+    }
+  }
+
+  /**
+   * Write all saved articles to a bibliography file in the vault
+   */
+  async exportBibliography(format: CitationFormat) {
+    const saved = Object.values(this.data.articles).filter(a => a.state === 'saved');
+    if (saved.length === 0) {
+      new Notice('No saved articles to export.');
+      return;
+    }
+
+    const changed = assignCitekeys(saved, this.data.articles, this.settings);
+    if (changed.length > 0) {
+      this.savePluginData(changed);
+    }
+
+    const basePath = normalizePath(this.settings.bibExportPath || DEFAULT_SETTINGS.bibExportPath);
+    const path = basePath.replace(/\.[^./]+$/, '') + '.' + CITATION_FORMATS[format].extension;
+    const content = exportBibliography(saved, format);
+
+    try {
+      const folderPath = path.substring(0, path.lastIndexOf('/'));
+      if (folderPath) await ensureFolder(this.app, folderPath);
+
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) {
+        await this.app.vault.modify(file, content);
+      } else {
+        await this.app.vault.create(path, content);
+      }
+      new Notice(`Exported ${saved.length} articles to ${path}`);
+    } catch (error) {
+      console.error('Error exporting bibliography:', error);
+      new Notice('Error exporting bibliography');
+    }
+  }
+
+  /**
+   * Replace the citation keys of all saved articles using the current key pattern
+   */
+  regenerateCitekeys(): number {
+    const saved = Object.values(this.data.articles).filter(a => a.state === 'saved');
+    const changed = assignCitekeys(saved, this.data.articles, this.settings, true);
+    this.savePluginData(changed);
+    return changed.length;
+  }
+
   async updateMasterIndex() {
     const articles = Object.values(this.data.articles);
-    const content = generateMasterIndex(articles, this.settings);
+    const style = await loadCitationStyle(this.app, this.settings);
+    const content = generateMasterIndex(articles, this.settings, style);
     
     const indexPath = normalizePath(this.settings.masterIndexPath);
     const folderPath = indexPath.substring(0, indexPath.lastIndexOf('/'));
@@ -366,6 +1363,55 @@ export default class JournalMonitorPlugin extends Plugin {
     new Notice('Master index updated');
   }
 
+  /**
+   * Rewrite the index notes of all journals with articles in the cache
+   */
+  async updateAllJournalIndices(notify: boolean = true) {
+    const issns = new Set(Object.values(this.data.articles).map(a => a.journalIssn));
+    const journals = this.settings.journals.filter(j => issns.has(j.issn));
+    const style = await loadCitationStyle(this.app, this.settings);
+
+    for (const journal of journals) {
+      await this.updateJournalIndex(journal.issn, style);
+    }
+
+    if (notify) {
+      new Notice(`Updated ${journals.length} journal ${journals.length === 1 ? 'index' : 'indices'}`);
+    }
+  }
+
+  /**
+   * Update the index notes of these journals shortly, batching changes made in quick succession
+   */
+  scheduleJournalIndexUpdate(issns: string[]) {
+    if (!this.settings.autoUpdateJournalIndices || issns.length === 0) return;
+
+    for (const issn of issns) {
+      this.pendingJournalIndices.add(issn);
+    }
+    if (this.journalIndexTimer !== null) {
+      window.clearTimeout(this.journalIndexTimer);
+    }
+    this.journalIndexTimer = window.setTimeout(() => {
+      this.journalIndexTimer = null;
+      void this.updatePendingJournalIndices();
+    }, INDEX_UPDATE_DEBOUNCE_MS);
+  }
+
+  private async updatePendingJournalIndices() {
+    const issns = Array.from(this.pendingJournalIndices);
+    this.pendingJournalIndices.clear();
+
+    try {
+      const style = await loadCitationStyle(this.app, this.settings);
+      for (const issn of issns) {
+        await this.updateJournalIndex(issn, style);
+      }
+    } catch (error) {
+      console.error('Journal Monitor: Error updating journal indices:', error);
+    }
+  }
+
   async openMasterIndex() {
     const indexPath = normalizePath(this.settings.masterIndexPath);
     const file = this.app.vault.getAbstractFileByPath(indexPath);
@@ -381,22 +1427,22 @@ export default class JournalMonitorPlugin extends Plugin {
     }
   }
 
-  async updateJournalIndex(journalIssn: string) {
+  async updateJournalIndex(journalIssn: string, style?: CslStyle) {
     const journal = this.settings.journals.find(j => j.issn === journalIssn);
     if (!journal) return;
 
     const articles = Object.values(this.data.articles);
-    const content = generateJournalIndex(journal, articles);
-    
-    const journalSlug = journal.name
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '');
+    this.data.statistics = computeStatistics(this.data.articles);
+    const content = generateJournalIndex(
+      journal,
+      articles,
+      style || await loadCitationStyle(this.app, this.settings),
+      this.data.statistics.byJournal[journal.issn]
+    );
     
-    const folderPath = normalizePath(this.settings.journalIndicesFolder);
-    const indexPath = normalizePath(`${folderPath}/${journalSlug}.md`);
+    const indexPath = getJournalIndexPath(this.settings, journal);
     
-    await ensureFolder(this.app, folderPath);
+    await ensureFolder(this.app, indexPath.substring(0, indexPath.lastIndexOf('/')));
 
     const existingFile = this.app.vault.getAbstractFileByPath(indexPath);
     
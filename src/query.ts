@@ -0,0 +1,338 @@
+import { Article } from './types';
+
+/**
+ * Search query language for filters.
+ *
+ *   forest biomass                 both words (AND is implied)
+ *   lidar OR SAR                   either word
+ *   NOT review, -review            exclude
+ *   "exact phrase"                 consecutive words
+ *   (a OR b) AND c                 grouping
+ *   title:lidar, author:"Smith J"  field scope: title, abstract, author, journal, keyword
+ *   forest*                        prefix
+ *
+ * Terms match whole words, ignoring case and accents, so "forest" does not match
+ * "deforestation". Operators must be written in capitals. Author terms match names in any
+ * order, with single letters as initials: author:"Smith J" finds "John Smith".
+ */
+
+export type QueryField = 'title' | 'abstract' | 'author' | 'journal' | 'keyword';
+
+export type QueryNode =
+  | { type: 'term'; field: QueryField | null; words: string[]; prefix: boolean; text: string }
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+export interface QueryOptions {
+  // Fields searched by terms without a field prefix
+  defaultFields: QueryField[];
+  // Match word variants ("forests", "forested") of a term
+  stemming: boolean;
+}
+
+export class QueryError extends Error {
+  // Character offset in the query
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QueryError';
+    this.position = position;
+  }
+}
+
+const QUERY_FIELDS: QueryField[] = ['title', 'abstract', 'author', 'journal', 'keyword'];
+
+type Token =
+  | { type: '(' | ')' | 'AND' | 'OR' | 'NOT'; position: number }
+  | { type: 'field'; field: QueryField; position: number }
+  | { type: 'word' | 'phrase'; text: string; position: number };
+
+function tokenizeQuery(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char, position: i });
+      i++;
+    } else if (char === '"') {
+      const end = query.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new QueryError(`Missing closing quote for the phrase at character ${i + 1}`, i);
+      }
+      tokens.push({ type: 'phrase', text: query.substring(i + 1, end), position: i });
+      i = end + 1;
+    } else if (char === '-' && i + 1 < query.length && /[^\s)]/.test(query[i + 1])
+      && (i === 0 || /[\s(]/.test(query[i - 1]))) {
+      tokens.push({ type: 'NOT', position: i });
+      i++;
+    } else {
+      const start = i;
+      while (i < query.length && !/[\s()"]/.test(query[i])) i++;
+      const text = query.substring(start, i);
+
+      const field = text.match(/^([A-Za-z]+):(.*)$/);
+      if (field) {
+        const name = field[1].toLowerCase() as QueryField;
+        if (!QUERY_FIELDS.includes(name)) {
+          throw new QueryError(`Unknown field "${field[1]}:" - use ${QUERY_FIELDS.map(f => `${f}:`).join(', ')}`, start);
+        }
+        tokens.push({ type: 'field', field: name, position: start });
+        if (field[2]) {
+          tokens.push({ type: 'word', text: field[2], position: start + field[1].length + 1 });
+        }
+      } else if (text === 'AND' || text === 'OR' || text === 'NOT') {
+        tokens.push({ type: text, position: start });
+      } else {
+        tokens.push({ type: 'word', text, position: start });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Lowercased, accent-folded words of a text
+ */
+function splitWords(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9*]+/)
+    .filter(w => w.length > 0);
+}
+
+/**
+ * Strip common English inflections, so "forests", "forested" and "forest" compare equal
+ */
+export function stemWord(word: string): string {
+  if (word.length <= 4) return word;
+  if (word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (/(ss|us|is)$/.test(word)) return word;
+  if (/(ches|shes|sses|xes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s')) return word.slice(0, -1);
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 5 && word.endsWith('ed')) return word.slice(0, -2);
+  return word;
+}
+
+class QueryParser {
+  private tokens: Token[];
+  private index = 0;
+  private length: number;
+
+  constructor(tokens: Token[], length: number) {
+    this.tokens = tokens;
+    this.length = length;
+  }
+
+  parse(): QueryNode {
+    const node = this.parseOr(null);
+    const token = this.peek();
+    if (token) {
+      throw new QueryError(
+        token.type === ')'
+          ? `Unmatched ")" at character ${token.position + 1}`
+          : `Unexpected ${describeToken(token)} at character ${token.position + 1}`,
+        token.position
+      );
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private parseOr(field: QueryField | null): QueryNode {
+    const children = [this.parseAnd(field)];
+    while (this.peek()?.type === 'OR') {
+      this.index++;
+      children.push(this.parseAnd(field));
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(field: QueryField | null): QueryNode {
+    const children = [this.parseUnary(field)];
+    for (;;) {
+      const token = this.peek();
+      if (!token || token.type === ')' || token.type === 'OR') break;
+      if (token.type === 'AND') this.index++;
+      children.push(this.parseUnary(field));
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseUnary(field: QueryField | null): QueryNode {
+    if (this.peek()?.type === 'NOT') {
+      this.index++;
+      return { type: 'not', child: this.parseUnary(field) };
+    }
+    return this.parsePrimary(field);
+  }
+
+  private parsePrimary(field: QueryField | null): QueryNode {
+    const token = this.peek();
+    if (!token) {
+      throw new QueryError(
+        this.index === 0 ? 'Query is empty' : `Expected a search term after ${describeToken(this.tokens[this.index - 1])}`,
+        this.length
+      );
+    }
+
+    switch (token.type) {
+      case '(': {
+        this.index++;
+        const node = this.parseOr(field);
+        if (this.peek()?.type !== ')') {
+          throw new QueryError(`Missing ")" for the "(" at character ${token.position + 1}`, token.position);
+        }
+        this.index++;
+        return node;
+      }
+      case 'field': {
+        this.index++;
+        const next = this.peek();
+        if (!next || next.type !== 'word' && next.type !== 'phrase' && next.type !== '(') {
+          throw new QueryError(`Expected a term after "${token.field}:" at character ${token.position + 1}`, token.position);
+        }
+        return this.parsePrimary(token.field);
+      }
+      case 'word':
+      case 'phrase': {
+        this.index++;
+        const prefix = token.type === 'word' && token.text.endsWith('*');
+        const words = splitWords(token.text.replace(/\*+$/, '')).map(w => w.replace(/\*/g, ''));
+        if (words.length === 0 || words.some(w => !w)) {
+          throw new QueryError(`"${token.text}" has no letters or digits to search for`, token.position);
+        }
+        return { type: 'term', field, words, prefix, text: token.text };
+      }
+      default:
+        throw new QueryError(`Expected a search term but found ${describeToken(token)} at character ${token.position + 1}`, token.position);
+    }
+  }
+}
+
+function describeToken(token: Token): string {
+  switch (token.type) {
+    case 'field':
+      return `"${token.field}:"`;
+    case 'word':
+      return `"${token.text}"`;
+    case 'phrase':
+      return `"\\"${token.text}\\""`;
+    default:
+      return `"${token.type}"`;
+  }
+}
+
+/**
+ * Parse a query, throwing a QueryError that describes the problem. Returns null for a blank query.
+ */
+export function parseQuery(query: string): QueryNode | null {
+  if (!query.trim()) return null;
+  return new QueryParser(tokenizeQuery(query), query.length).parse();
+}
+
+/**
+ * The parse error of a query as a message, or null if it is valid
+ */
+export function validateQuery(query: string): string | null {
+  try {
+    parseQuery(query);
+    return null;
+  } catch (error) {
+    if (error instanceof QueryError) return error.message;
+    throw error;
+  }
+}
+
+/**
+ * Word lists of an article's field; authors and keywords are separate lists so that
+ * a phrase cannot span two of them
+ */
+function getFieldWords(article: Article, field: QueryField): string[][] {
+  switch (field) {
+    case 'title':
+      return [splitWords(article.title)];
+    case 'abstract':
+      return [splitWords(article.abstract || '')];
+    case 'author':
+      return article.authors.map(splitWords);
+    case 'journal':
+      return [splitWords(article.journal)];
+    case 'keyword':
+      return (article.keywords || []).map(splitWords);
+  }
+}
+
+function matchesTerm(
+  term: Extract<QueryNode, { type: 'term' }>,
+  field: QueryField,
+  fieldWords: string[][],
+  stemming: boolean
+): boolean {
+  if (field === 'author') {
+    return fieldWords.some(name => term.words.every((word, i) =>
+      word.length === 1 || i === term.words.length - 1 && term.prefix
+        ? name.some(part => part.startsWith(word))
+        : name.includes(word)));
+  }
+
+  const normalize = (word: string) => stemming ? stemWord(word) : word;
+  const last = term.words.length - 1;
+  const wanted = term.words.map((word, i) => i === last && term.prefix ? word : normalize(word));
+
+  const matchesAt = (words: string[], start: number) => wanted.every((word, i) =>
+    i === last && term.prefix ? words[start + i].startsWith(word) : normalize(words[start + i]) === word);
+
+  return fieldWords.some(words => {
+    for (let start = 0; start + wanted.length <= words.length; start++) {
+      if (matchesAt(words, start)) return true;
+    }
+    return false;
+  });
+}
+
+/**
+ * Whether an article matches a parsed query
+ */
+export function matchesQuery(article: Article, node: QueryNode, options: QueryOptions): boolean {
+  const cache: Partial<Record<QueryField, string[][]>> = {};
+  const words = (field: QueryField) => cache[field] || (cache[field] = getFieldWords(article, field));
+
+  const evaluate = (node: QueryNode): boolean => {
+    switch (node.type) {
+      case 'and':
+        return node.children.every(evaluate);
+      case 'or':
+        return node.children.some(evaluate);
+      case 'not':
+        return !evaluate(node.child);
+      case 'term': {
+        const fields = node.field ? [node.field] : options.defaultFields;
+        return fields.some(field => matchesTerm(node, field, words(field), options.stemming));
+      }
+    }
+  };
+
+  return evaluate(node);
+}
+
+/**
+ * Query equivalent to a legacy keyword list (any of the keywords)
+ */
+export function keywordsToQuery(keywords: string[]): string {
+  return keywords
+    .map(keyword => /^[A-Za-z0-9]+$/.test(keyword) && !['AND', 'OR', 'NOT'].includes(keyword) ? keyword : `"${keyword.replace(/"/g, '')}"`)
+    .join(' OR ');
+}
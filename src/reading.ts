@@ -0,0 +1,63 @@
+import { CachedMetadata, getAllTags } from 'obsidian';
+import { Article, ReadingStatus } from './types';
+
+// In lifecycle order; when a note carries several status tags the latest stage wins
+export const READING_STATUSES: ReadingStatus[] = ['to-read', 'reading', 'read', 'cited'];
+
+export const READING_STATUS_LABELS: Record<ReadingStatus, string> = {
+  'to-read': '📥 To read',
+  reading: '📖 Reading',
+  read: '✅ Read',
+  cited: '📝 Cited',
+};
+
+// Frontmatter key holding the status in saved notes
+export const READING_STATUS_KEY = 'status';
+
+// Tag written by earlier versions of the note template for notes not yet read
+const LEGACY_UNREAD_TAG = 'unread';
+
+/**
+ * Reading status of a saved article. Articles saved before statuses existed count as to-read.
+ */
+export function getReadingStatus(article: Article): ReadingStatus {
+  return article.readingStatus || 'to-read';
+}
+
+function toReadingStatus(value: unknown): ReadingStatus | null {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  if (normalized === 'toread' || normalized === LEGACY_UNREAD_TAG) return 'to-read';
+  return READING_STATUSES.includes(normalized as ReadingStatus) ? normalized as ReadingStatus : null;
+}
+
+/**
+ * Reading status recorded in a note: the `status` frontmatter key, else a status tag
+ * (`#read`, `#status/read`, or the legacy `#unread`). Null if the note has neither.
+ */
+export function getNoteReadingStatus(cache: CachedMetadata | null): ReadingStatus | null {
+  if (!cache) return null;
+
+  const fromFrontmatter = toReadingStatus(cache.frontmatter?.[READING_STATUS_KEY]);
+  if (fromFrontmatter) return fromFrontmatter;
+
+  let latest: ReadingStatus | null = null;
+  for (const tag of getAllTags(cache) || []) {
+    const status = toReadingStatus(tag.replace(/^#/, '').replace(/^status\//i, ''));
+    if (status && (!latest || READING_STATUSES.indexOf(status) > READING_STATUSES.indexOf(latest))) {
+      latest = status;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Count saved articles per reading status
+ */
+export function countReadingStatuses(articles: Article[]): Record<ReadingStatus, number> {
+  const counts: Record<ReadingStatus, number> = { 'to-read': 0, reading: 0, read: 0, cited: 0 };
+  for (const article of articles) {
+    if (article.state === 'saved') counts[getReadingStatus(article)]++;
+  }
+  return counts;
+}
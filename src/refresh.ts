@@ -0,0 +1,273 @@
+import { App, TFile, parseYaml, stringifyYaml } from 'obsidian';
+import { Article, JournalMonitorSettings } from './types';
+import { ArticleProvider, backfillAbstracts, createProvider, getJournalProvider } from './api';
+import { DEFAULT_NOTE_TEMPLATE } from './template';
+import { copyArticleField, generateArticleNote, isDoi, loadCitationStyle, loadNoteTemplate } from './utils';
+
+// Heading of the user-written section that a refresh never touches
+const NOTES_HEADING = '## Notes';
+
+// Frontmatter keys the user is expected to edit; kept as they are when already present
+const USER_MANAGED_KEYS = ['tags', 'saved', 'status'];
+
+// Metadata fields copied from a re-fetched record
+const REFRESHED_FIELDS: (keyof Article)[] = [
+  'title', 'authors', 'volume', 'issue', 'pages', 'date', 'year', 'url', 'openAccessUrl', 'abstract', 'keywords',
+];
+
+// A saved note whose regenerated content differs from what is on disk
+export interface NoteUpdate {
+  file: TFile;
+  article: Article;
+  before: string;
+  after: string;
+}
+
+export interface RefreshResult {
+  // Refreshed copies of the articles whose metadata changed; the cached articles are left as they are
+  updated: Article[];
+  failed: number;
+}
+
+export interface DiffLine {
+  type: 'same' | 'add' | 'remove';
+  text: string;
+}
+
+/**
+ * Re-fetch metadata for saved articles and return copies with the new values, so nothing
+ * changes in the cache until the user accepts the resulting note updates.
+ * Each article is looked up through its journal's provider, falling back to the default
+ * provider when that source cannot look up DOIs (e.g. RSS feeds).
+ */
+export async function refreshArticleMetadata(
+  articles: Article[],
+  settings: JournalMonitorSettings
+): Promise<RefreshResult> {
+  const result: RefreshResult = { updated: [], failed: 0 };
+  const fallback = createProvider(settings.apiProvider, settings);
+  const copies = articles.map(article => ({ ...article }));
+
+  await Promise.all(copies.filter(a => isDoi(a.doi)).map(async article => {
+    const journal = settings.journals.find(j => j.issn === article.journalIssn);
+    const provider: ArticleProvider = journal ? getJournalProvider(journal, settings) : fallback;
+
+    try {
+      let fetched = await provider.fetchByDoi(article.doi);
+      if (!fetched && provider.id !== fallback.id) {
+        fetched = await fallback.fetchByDoi(article.doi);
+      }
+      if (fetched && mergeArticleMetadata(article, fetched)) {
+        result.updated.push(article);
+      }
+    } catch (error) {
+      console.error(`Journal Monitor: Could not refresh ${article.doi}:`, error);
+      result.failed++;
+    }
+  }));
+
+  // Abstracts often only appear in CrossRef
+  const missing = copies.filter(a => !a.abstract);
+  if (missing.length > 0 && await backfillAbstracts(missing) > 0) {
+    for (const article of missing) {
+      if (article.abstract && !result.updated.includes(article)) result.updated.push(article);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Copy non-empty metadata from a re-fetched record. Returns whether anything changed.
+ */
+export function mergeArticleMetadata(article: Article, fetched: Article): boolean {
+  let changed = false;
+
+  for (const field of REFRESHED_FIELDS) {
+    const value = fetched[field];
+    const empty = value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+    if (empty || JSON.stringify(value) === JSON.stringify(article[field])) continue;
+
+    copyArticleField(article, fetched, field);
+    changed = true;
+  }
+
+  return changed;
+}
+
+/**
+ * Regenerate the notes of saved articles and collect those whose content would change
+ */
+export async function planNoteUpdates(
+  app: App,
+  articles: Article[],
+  settings: JournalMonitorSettings
+): Promise<NoteUpdate[]> {
+  const template = await loadNoteTemplate(app, settings);
+  const style = await loadCitationStyle(app, settings);
+  const updates: NoteUpdate[] = [];
+
+  for (const article of articles) {
+    const file = article.savedPath ? app.vault.getAbstractFileByPath(article.savedPath) : null;
+    if (!(file instanceof TFile)) continue;
+
+    const before = await app.vault.read(file);
+    const after = mergeNoteContent(before, generateArticleNote(article, settings, template, style));
+    if (after !== before) {
+      updates.push({ file, article, before, after });
+    }
+  }
+
+  return updates;
+}
+
+/**
+ * Write the selected updates and return those written.
+ * Notes edited since the preview was built are skipped.
+ */
+export async function applyNoteUpdates(app: App, updates: NoteUpdate[]): Promise<{ applied: NoteUpdate[]; skipped: number }> {
+  const applied: NoteUpdate[] = [];
+  let skipped = 0;
+
+  for (const update of updates) {
+    const current = await app.vault.read(update.file);
+    if (current !== update.before) {
+      skipped++;
+      continue;
+    }
+    await app.vault.modify(update.file, update.after);
+    applied.push(update);
+  }
+
+  return { applied, skipped };
+}
+
+/**
+ * Combine an existing note with freshly rendered content: generated frontmatter
+ * keys and sections are replaced, while user-added frontmatter keys, user-managed
+ * keys and everything under "## Notes" are kept. Notes without a "## Notes"
+ * section only get their frontmatter updated.
+ */
+export function mergeNoteContent(existing: string, rendered: string): string {
+  const oldNote = splitFrontmatter(existing);
+  const newNote = splitFrontmatter(rendered);
+
+  const frontmatter = mergeFrontmatter(oldNote.frontmatter, newNote.frontmatter);
+
+  let body = oldNote.body;
+  const endHeadings = getGeneratedHeadings(newNote.body);
+  const oldSections = splitAtNotes(oldNote.body, endHeadings);
+  const newSections = splitAtNotes(newNote.body, endHeadings);
+  if (oldSections && newSections) {
+    body = newSections.before + oldSections.notes + newSections.after;
+  }
+
+  return frontmatter === null ? body : `---\n${frontmatter}---\n${body}`;
+}
+
+function splitFrontmatter(content: string): { frontmatter: string | null; body: string } {
+  const match = content.match(/^---\r?\n([\s\S]*?\r?\n)?---[ \t]*(?:\r?\n|$)/);
+  if (!match) return { frontmatter: null, body: content };
+  return { frontmatter: match[1] || '', body: content.substring(match[0].length) };
+}
+
+function mergeFrontmatter(existing: string | null, generated: string | null): string | null {
+  if (generated === null) return existing;
+  if (existing === null) return generated;
+
+  let oldData: Record<string, unknown>;
+  let newData: Record<string, unknown>;
+  try {
+    oldData = parseYaml(existing) || {};
+    newData = parseYaml(generated) || {};
+  } catch (error) {
+    // Leave frontmatter the user broke alone rather than guess
+    console.error('Journal Monitor: Could not parse frontmatter:', error);
+    return existing;
+  }
+
+  const merged: Record<string, unknown> = { ...oldData };
+  for (const [key, value] of Object.entries(newData)) {
+    if (USER_MANAGED_KEYS.includes(key) && key in oldData) continue;
+    merged[key] = value;
+  }
+
+  // Keep the original formatting when nothing changed
+  if (JSON.stringify(merged) === JSON.stringify(oldData)) return existing;
+  return stringifyYaml(merged);
+}
+
+/**
+ * Level 1-2 headings that follow "## Notes" in generated content (e.g. "## BibTeX").
+ * The built-in template's are included so a section dropped from the template still ends the notes.
+ */
+function getGeneratedHeadings(body: string): string[] {
+  const headings = new Set<string>();
+  for (const text of [body, DEFAULT_NOTE_TEMPLATE]) {
+    const lines = text.split('\n');
+    const start = lines.findIndex(line => line.trim() === NOTES_HEADING);
+    if (start === -1) continue;
+    for (const line of lines.slice(start + 1)) {
+      if (/^#{1,2} /.test(line)) headings.add(line.trim());
+    }
+  }
+  return Array.from(headings);
+}
+
+/**
+ * Split a note body around its "## Notes" section. The section ends at the next
+ * generated heading, not counting the separator lines just before it.
+ */
+function splitAtNotes(body: string, endHeadings: string[]): { before: string; notes: string; after: string } | null {
+  const lines = body.split('\n');
+  const start = lines.findIndex(line => line.trim() === NOTES_HEADING);
+  if (start === -1) return null;
+
+  let end = lines.findIndex((line, i) => i > start && endHeadings.includes(line.trim()));
+  if (end === -1) {
+    end = lines.length;
+  } else {
+    while (end - 1 > start && /^(---|\s*)$/.test(lines[end - 1])) end--;
+  }
+
+  return {
+    before: lines.slice(0, start + 1).join('\n'),
+    notes: end > start + 1 ? '\n' + lines.slice(start + 1, end).join('\n') : '',
+    after: end < lines.length ? '\n' + lines.slice(end).join('\n') : '',
+  };
+}
+
+/**
+ * Line diff (longest common subsequence) for the refresh preview
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      diff.push({ type: 'remove', text: a[i++] });
+    } else {
+      diff.push({ type: 'add', text: b[j++] });
+    }
+  }
+  while (i < a.length) diff.push({ type: 'remove', text: a[i++] });
+  while (j < b.length) diff.push({ type: 'add', text: b[j++] });
+
+  return diff;
+}
@@ -0,0 +1,273 @@
+import { Article } from './types';
+import { parseAuthorName } from './citation';
+
+/**
+ * Offline relevance model learned from save/skip history.
+ *
+ * Articles are TF-IDF vectors over title, abstract and keywords. The user's profile is the
+ * mean vector of saved articles minus a fraction of the mean of skipped ones (Rocchio), and
+ * an article's score is its similarity to that profile plus priors for journals the user
+ * tends to save from and authors they saved before.
+ */
+
+export interface RelevanceModel {
+  // Term weights of the user profile; negative for terms typical of skipped articles
+  profile: Map<string, number>;
+  idf: Map<string, number>;
+  // Save rate per journal ISSN, centred on 0 (-0.5..0.5)
+  journalPrior: Map<string, number>;
+  // Author keys (family name + first initial) of saved articles
+  savedAuthors: Set<string>;
+  savedCount: number;
+  // Cached document vectors by DOI
+  vectors: Map<string, Map<string, number>>;
+}
+
+export interface RelevanceScore {
+  score: number;
+  // Terms contributing most, as written in the article
+  terms: string[];
+  // Authors the user saved before
+  authors: string[];
+  favouriteJournal: boolean;
+}
+
+// How much skipped articles pull the profile away from their terms
+const SKIP_WEIGHT = 0.5;
+
+const JOURNAL_WEIGHT = 0.2;
+const AUTHOR_WEIGHT = 0.3;
+
+// Title and keyword terms count more than abstract terms
+const TITLE_WEIGHT = 2;
+const KEYWORD_WEIGHT = 2;
+
+// Terms shown in the explanation, and the smallest contribution worth mentioning
+const MAX_EXPLAINED_TERMS = 3;
+const MIN_TERM_CONTRIBUTION = 0.01;
+
+// Journal prior above which the journal is mentioned in the explanation
+const FAVOURITE_JOURNAL_PRIOR = 0.2;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'onto', 'over', 'under', 'between', 'within', 'during', 'across',
+  'through', 'about', 'after', 'before', 'than', 'that', 'this', 'these', 'those', 'which', 'where', 'when', 'while',
+  'their', 'there', 'here', 'our', 'its', 'are', 'was', 'were', 'been', 'being', 'have', 'has', 'had', 'can', 'could',
+  'may', 'might', 'will', 'would', 'should', 'not', 'but', 'also', 'both', 'such', 'more', 'most', 'other', 'some',
+  'all', 'any', 'each', 'only', 'very', 'how', 'what', 'why', 'who', 'whose', 'via', 'using', 'use', 'used', 'based',
+  'study', 'studies', 'result', 'results', 'show', 'shows', 'shown', 'new', 'novel', 'approach', 'analysis', 'effect',
+  'effects', 'paper', 'present', 'propose', 'proposed', 'however', 'thus', 'therefore', 'well', 'among', 'two', 'three',
+  'one', 'first', 'high', 'higher', 'low', 'lower', 'large', 'small', 'we', 'they', 'them', 'it', 'is', 'be', 'of',
+  'in', 'on', 'to', 'as', 'at', 'by', 'an', 'or', 'do', 'does', 'did', 'find', 'found', 'data', 'method', 'methods',
+]);
+
+/**
+ * Words of a text as [term, surface form] pairs. Terms are lowercased, accent-folded and
+ * lightly stemmed (plural endings); numbers, stop words and very short words are dropped.
+ */
+function tokenize(text: string): [string, string][] {
+  const tokens: [string, string][] = [];
+
+  for (const word of text.split(/[^A-Za-z0-9\u00C0-\u024F]+/)) {
+    if (word.length < 3 || /^\d+$/.test(word)) continue;
+
+    let term = word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    if (STOP_WORDS.has(term)) continue;
+
+    if (term.length > 4 && term.endsWith('ies')) {
+      term = term.slice(0, -3) + 'y';
+    } else if (term.length > 4 && term.endsWith('s') && !/(ss|us|is)$/.test(term)) {
+      term = term.slice(0, -1);
+    }
+    tokens.push([term, word]);
+  }
+
+  return tokens;
+}
+
+function getTermFrequencies(article: Article, surfaces?: Map<string, string>): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  const add = (text: string, weight: number) => {
+    for (const [term, surface] of tokenize(text)) {
+      frequencies.set(term, (frequencies.get(term) || 0) + weight);
+      if (surfaces && !surfaces.has(term)) surfaces.set(term, surface);
+    }
+  };
+
+  add(article.title, TITLE_WEIGHT);
+  add((article.keywords || []).join(' '), KEYWORD_WEIGHT);
+  add(article.abstract || '', 1);
+
+  return frequencies;
+}
+
+/**
+ * Unit-length TF-IDF vector (sublinear term frequency)
+ */
+function toVector(frequencies: Map<string, number>, idf: Map<string, number>): Map<string, number> {
+  const vector = new Map<string, number>();
+  let norm = 0;
+
+  for (const [term, frequency] of frequencies) {
+    const weight = (1 + Math.log(frequency)) * (idf.get(term) || 0);
+    vector.set(term, weight);
+    norm += weight * weight;
+  }
+
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (const [term, weight] of vector) vector.set(term, weight / norm);
+  }
+  return vector;
+}
+
+function getAuthorKey(author: string): string {
+  const name = parseAuthorName(author);
+  return `${name.family.toLowerCase()} ${name.given.charAt(0).toLowerCase()}`.trim();
+}
+
+/**
+ * Learn a relevance model from the cached articles' states
+ */
+export function buildRelevanceModel(articles: Article[]): RelevanceModel {
+  const frequencies = new Map<string, Map<string, number>>();
+  const documentFrequency = new Map<string, number>();
+
+  for (const article of articles) {
+    const terms = getTermFrequencies(article);
+    frequencies.set(article.doi, terms);
+    for (const term of terms.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const idf = new Map<string, number>();
+  for (const [term, count] of documentFrequency) {
+    idf.set(term, Math.log((articles.length + 1) / (count + 1)) + 1);
+  }
+
+  const vectors = new Map<string, Map<string, number>>();
+  for (const [doi, terms] of frequencies) {
+    vectors.set(doi, toVector(terms, idf));
+  }
+
+  const saved = articles.filter(a => a.state === 'saved');
+  const skipped = articles.filter(a => a.state === 'skipped');
+
+  const profile = new Map<string, number>();
+  const addToProfile = (group: Article[], weight: number) => {
+    for (const article of group) {
+      for (const [term, value] of vectors.get(article.doi) || []) {
+        profile.set(term, (profile.get(term) || 0) + value * weight / group.length);
+      }
+    }
+  };
+  addToProfile(saved, 1);
+  addToProfile(skipped, -SKIP_WEIGHT);
+
+  const journalCounts = new Map<string, { saved: number; skipped: number }>();
+  for (const article of [...saved, ...skipped]) {
+    const counts = journalCounts.get(article.journalIssn) || { saved: 0, skipped: 0 };
+    if (article.state === 'saved') counts.saved++;
+    else counts.skipped++;
+    journalCounts.set(article.journalIssn, counts);
+  }
+  const journalPrior = new Map<string, number>();
+  for (const [issn, counts] of journalCounts) {
+    // Laplace-smoothed save rate, so a single save does not dominate
+    journalPrior.set(issn, (counts.saved + 1) / (counts.saved + counts.skipped + 2) - 0.5);
+  }
+
+  const savedAuthors = new Set<string>();
+  for (const article of saved) {
+    for (const author of article.authors) savedAuthors.add(getAuthorKey(author));
+  }
+
+  return { profile, idf, journalPrior, savedAuthors, savedCount: saved.length, vectors };
+}
+
+/**
+ * Score an article against the model, with the reasons behind the score
+ */
+export function scoreArticle(article: Article, model: RelevanceModel): RelevanceScore {
+  const surfaces = new Map<string, string>();
+  const frequencies = getTermFrequencies(article, surfaces);
+  const vector = model.vectors.get(article.doi) || toVector(frequencies, model.idf);
+
+  let textScore = 0;
+  const contributions: [string, number][] = [];
+  for (const [term, weight] of vector) {
+    const contribution = weight * (model.profile.get(term) || 0);
+    textScore += contribution;
+    if (contribution >= MIN_TERM_CONTRIBUTION) contributions.push([term, contribution]);
+  }
+
+  const authors = article.authors.filter(author => model.savedAuthors.has(getAuthorKey(author)));
+  const journalPrior = model.journalPrior.get(article.journalIssn) || 0;
+
+  // An already-saved article trivially matches its own authors; don't count that
+  const authorScore = article.state === 'saved' ? 0 : Math.min(authors.length, 2) / 2;
+
+  return {
+    score: textScore + JOURNAL_WEIGHT * journalPrior + AUTHOR_WEIGHT * authorScore,
+    terms: contributions
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_EXPLAINED_TERMS)
+      .map(([term]) => surfaces.get(term) || term),
+    authors: article.state === 'saved' ? [] : authors,
+    favouriteJournal: journalPrior >= FAVOURITE_JOURNAL_PRIOR,
+  };
+}
+
+/**
+ * Articles ordered by relevance, most relevant first; ties (e.g. before anything was saved) go newest first
+ */
+export function sortByRelevance(articles: Article[], model: RelevanceModel): Article[] {
+  const scores = new Map(articles.map(article => [article.doi, scoreArticle(article, model).score] as [string, number]));
+  return articles.sort((a, b) =>
+    (scores.get(b.doi) || 0) - (scores.get(a.doi) || 0)
+    || new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+/**
+ * Short reason for a card, e.g. "matches: phenology, Landsat; author you saved before (Smith)"
+ */
+export function explainRelevance(score: RelevanceScore): string {
+  const reasons: string[] = [];
+
+  if (score.terms.length > 0) {
+    reasons.push(`matches: ${score.terms.join(', ')}`);
+  }
+  if (score.authors.length > 0) {
+    const names = score.authors.slice(0, 2).map(author => parseAuthorName(author).family).join(', ');
+    reasons.push(`${score.authors.length > 1 ? 'authors' : 'author'} you saved before (${names})`);
+  }
+  if (score.favouriteJournal) {
+    reasons.push('a journal you often save from');
+  }
+
+  return reasons.join('; ');
+}
+
+/**
+ * Most common title and keyword terms of a set of articles, counted once per article and
+ * shown as first written
+ */
+export function getTopTerms(articles: Article[], limit: number): { term: string; count: number }[] {
+  const counts = new Map<string, number>();
+  const surfaces = new Map<string, string>();
+
+  for (const article of articles) {
+    const terms = new Set<string>();
+    for (const [term, surface] of tokenize(`${article.title} ${(article.keywords || []).join(' ')}`)) {
+      terms.add(term);
+      if (!surfaces.has(term)) surfaces.set(term, surface);
+    }
+    terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+  }
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([term, count]) => ({ term: surfaces.get(term) || term, count }));
+}
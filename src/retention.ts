@@ -0,0 +1,59 @@
+import { Article, JournalMonitorSettings } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tombstones only need to outlast the lookback window; after this they are dropped
+const TOMBSTONE_TTL_DAYS = 365;
+
+// Articles the retention rules would remove, grouped by rule
+export interface PrunePlan {
+  skipped: Article[];
+  viewed: Article[];
+}
+
+/**
+ * Days since an article entered its current state
+ */
+export function getStateAgeDays(article: Article, now = Date.now()): number {
+  const since = article.stateChangedAt || article.viewedAt || article.fetchedAt;
+  return Math.floor((now - new Date(since).getTime()) / DAY_MS);
+}
+
+/**
+ * Select cached articles past their retention period. Saved and unseen articles are never selected.
+ * A retention of 0 days keeps articles in that state forever.
+ */
+export function planPrune(
+  articles: Article[],
+  settings: JournalMonitorSettings,
+  now = Date.now()
+): PrunePlan {
+  const plan: PrunePlan = { skipped: [], viewed: [] };
+
+  for (const article of articles) {
+    if (article.state === 'skipped' && settings.skippedRetentionDays > 0
+      && getStateAgeDays(article, now) >= settings.skippedRetentionDays) {
+      plan.skipped.push(article);
+    } else if (article.state === 'viewed' && settings.viewedRetentionDays > 0
+      && getStateAgeDays(article, now) >= settings.viewedRetentionDays) {
+      plan.viewed.push(article);
+    }
+  }
+
+  const oldestFirst = (a: Article, b: Article) => getStateAgeDays(b, now) - getStateAgeDays(a, now);
+  plan.skipped.sort(oldestFirst);
+  plan.viewed.sort(oldestFirst);
+  return plan;
+}
+
+/**
+ * Drop tombstones older than the TTL, in place
+ */
+export function expireTombstones(tombstones: Record<string, string>, now = Date.now()) {
+  const cutoff = now - TOMBSTONE_TTL_DAYS * DAY_MS;
+  for (const [doi, removedAt] of Object.entries(tombstones)) {
+    if (new Date(removedAt).getTime() < cutoff) {
+      delete tombstones[doi];
+    }
+  }
+}
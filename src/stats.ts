@@ -0,0 +1,268 @@
+import { Article, DailyStats, JournalConfig, JournalMonitorData } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A week's triage lags are summarized by their median; weeks start on Monday
+const WEEK_START_DAY = 1;
+
+export interface WeeklyStats {
+  // Monday of the week (YYYY-MM-DD)
+  week: string;
+  fetched: number;
+  triaged: number;
+  saved: number;
+  // Median days from publication to triage, null if nothing was triaged
+  medianTriageLag: number | null;
+}
+
+export interface BacklogPoint {
+  day: string;
+  backlog: number;
+}
+
+export interface JournalSaveRate {
+  issn: string;
+  name: string;
+  saved: number;
+  skipped: number;
+  // Share of triaged articles that were saved (0-1)
+  rate: number;
+}
+
+/**
+ * Day (YYYY-MM-DD, UTC) of a timestamp
+ */
+export function toDayKey(date: Date | string): string {
+  return (typeof date === 'string' ? new Date(date) : date).toISOString().split('T')[0];
+}
+
+function addDays(day: string, days: number): string {
+  return toDayKey(new Date(new Date(`${day}T00:00:00Z`).getTime() + days * DAY_MS));
+}
+
+function emptyDay(): DailyStats {
+  return { fetched: 0, saved: 0, skipped: 0, backlog: 0, triageLags: [] };
+}
+
+/**
+ * Whether a library import put the article in the cache; a fetch never adds a cached DOI again,
+ * so the article arrived by import if it was "fetched" no earlier than the import
+ */
+function isImportedArticle(article: Article): boolean {
+  return !!article.importedAt && article.fetchedAt >= article.importedAt;
+}
+
+/**
+ * When a saved or skipped article was triaged. Saves recorded by a library import are not
+ * triage; an article saved again in the browser afterwards has a later `savedAt` and counts.
+ */
+function getTriagedAt(article: Article): string | undefined {
+  if (article.state === 'saved') {
+    const savedAt = article.savedAt || article.stateChangedAt;
+    if (article.importedAt && (!savedAt || savedAt <= article.importedAt)) return undefined;
+    return savedAt;
+  }
+  if (article.state === 'skipped') return article.stateChangedAt || article.viewedAt;
+  return undefined;
+}
+
+/**
+ * When an article stopped being unseen, undefined while it still is
+ */
+function getSeenAt(article: Article): string | undefined {
+  if (article.state === 'unseen') return undefined;
+  if (article.viewedAt) return article.viewedAt;
+  // A save recorded by a library import can be dated before the article was fetched
+  if (article.importedAt) return article.importedAt;
+  return article.savedAt || article.stateChangedAt || article.fetchedAt;
+}
+
+/**
+ * Whole days from publication to triage, null if the publication date is unknown
+ */
+function getTriageLag(article: Article, triagedAt: string): number | null {
+  const published = new Date(article.date).getTime();
+  if (isNaN(published)) return null;
+  return Math.max(0, Math.floor((new Date(triagedAt).getTime() - published) / DAY_MS));
+}
+
+/**
+ * Field-wise maximum of two rollups of the same day; of the triage lags, the longer list wins
+ */
+function maxDailyStats(a: DailyStats, b: DailyStats): DailyStats {
+  return {
+    fetched: Math.max(a.fetched, b.fetched),
+    saved: Math.max(a.saved, b.saved),
+    skipped: Math.max(a.skipped, b.skipped),
+    backlog: Math.max(a.backlog, b.backlog),
+    triageLags: b.triageLags.length > a.triageLags.length ? b.triageLags : a.triageLags,
+  };
+}
+
+/**
+ * Recompute daily rollups from the article cache and fold them into the stored ones.
+ * Articles added by a library import are left out.
+ * Counts keep the larger value, so days don't shrink when their articles are pruned.
+ * The backlog changes during the day, so from the last stored day on it is taken as
+ * recomputed; earlier days were stored after they ended and keep the larger value.
+ */
+export function computeDailyStats(
+  articles: Record<string, Article>,
+  previous: Record<string, DailyStats>,
+  now = new Date()
+): Record<string, DailyStats> {
+  const computed: Record<string, DailyStats> = {};
+  const getDay = (key: string) => computed[key] || (computed[key] = emptyDay());
+  const backlogChanges: Record<string, number> = {};
+  let firstDay: string | null = null;
+
+  for (const article of Object.values(articles)) {
+    if (!article.fetchedAt || isImportedArticle(article)) continue;
+
+    const fetchedDay = toDayKey(article.fetchedAt);
+    getDay(fetchedDay).fetched++;
+    backlogChanges[fetchedDay] = (backlogChanges[fetchedDay] || 0) + 1;
+    if (!firstDay || fetchedDay < firstDay) firstDay = fetchedDay;
+
+    const seenAt = getSeenAt(article);
+    if (seenAt) {
+      const seenDay = toDayKey(seenAt);
+      backlogChanges[seenDay] = (backlogChanges[seenDay] || 0) - 1;
+    }
+
+    const triagedAt = getTriagedAt(article);
+    if (triagedAt) {
+      const day = getDay(toDayKey(triagedAt));
+      if (article.state === 'saved') {
+        day.saved++;
+      } else {
+        day.skipped++;
+      }
+      const lag = getTriageLag(article, triagedAt);
+      if (lag !== null) day.triageLags.push(lag);
+    }
+  }
+
+  // Unseen articles at the end of each day since the first fetch
+  const today = toDayKey(now);
+  let backlog = 0;
+  for (let key = firstDay; key && key <= today; key = addDays(key, 1)) {
+    backlog += backlogChanges[key] || 0;
+    if (backlog > 0 || computed[key]) getDay(key).backlog = backlog;
+  }
+
+  const lastStoredDay = Object.keys(previous).sort().pop() || '';
+  const merged: Record<string, DailyStats> = { ...previous };
+  for (const [key, day] of Object.entries(computed)) {
+    day.triageLags.sort((a, b) => a - b);
+    const stored = previous[key];
+    if (!stored) {
+      merged[key] = day;
+    } else if (key >= lastStoredDay) {
+      merged[key] = { ...maxDailyStats(stored, day), backlog: day.backlog };
+    } else {
+      merged[key] = maxDailyStats(stored, day);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Merge daily rollups written by another device, taking the larger value of each field
+ */
+export function mergeDailyStats(
+  local: Record<string, DailyStats>,
+  remote: Record<string, DailyStats>
+): Record<string, DailyStats> {
+  const merged: Record<string, DailyStats> = { ...local };
+  for (const [key, day] of Object.entries(remote)) {
+    merged[key] = merged[key] ? maxDailyStats(merged[key], day) : day;
+  }
+  return merged;
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Activity per week for the last `weeks` weeks, oldest first, including empty weeks
+ */
+export function getWeeklyStats(
+  daily: Record<string, DailyStats>,
+  weeks: number,
+  now = new Date()
+): WeeklyStats[] {
+  const today = toDayKey(now);
+  const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  const thisWeek = addDays(today, -((weekday - WEEK_START_DAY + 7) % 7));
+
+  const result: WeeklyStats[] = [];
+  for (let i = weeks - 1; i >= 0; i--) {
+    const week = addDays(thisWeek, -7 * i);
+    const stats: WeeklyStats = { week, fetched: 0, triaged: 0, saved: 0, medianTriageLag: null };
+    const lags: number[] = [];
+
+    for (let d = 0; d < 7; d++) {
+      const day = daily[addDays(week, d)];
+      if (!day) continue;
+      stats.fetched += day.fetched;
+      stats.triaged += day.saved + day.skipped;
+      stats.saved += day.saved;
+      lags.push(...day.triageLags);
+    }
+
+    stats.medianTriageLag = median(lags);
+    result.push(stats);
+  }
+  return result;
+}
+
+/**
+ * Backlog at the end of each of the last `days` days, oldest first. Days without a rollup
+ * carry the previous day's backlog forward.
+ */
+export function getBacklogSeries(
+  daily: Record<string, DailyStats>,
+  days: number,
+  now = new Date()
+): BacklogPoint[] {
+  const today = toDayKey(now);
+  const start = addDays(today, -(days - 1));
+
+  // Start from the last known backlog before the window
+  const earlier = Object.keys(daily).filter(key => key < start).sort().pop();
+  let backlog = earlier ? daily[earlier].backlog : 0;
+
+  const series: BacklogPoint[] = [];
+  for (let key = start; key <= today; key = addDays(key, 1)) {
+    if (daily[key]) backlog = daily[key].backlog;
+    series.push({ day: key, backlog });
+  }
+  return series;
+}
+
+/**
+ * Save rate of each journal with triaged articles, highest first
+ */
+export function getJournalSaveRates(
+  statistics: JournalMonitorData['statistics'],
+  journals: JournalConfig[]
+): JournalSaveRate[] {
+  const rates: JournalSaveRate[] = [];
+  for (const [issn, counts] of Object.entries(statistics.byJournal)) {
+    const triaged = counts.saved + counts.skipped;
+    if (triaged === 0) continue;
+    rates.push({
+      issn,
+      name: journals.find(j => j.issn === issn)?.name || issn,
+      saved: counts.saved,
+      skipped: counts.skipped,
+      rate: counts.saved / triaged,
+    });
+  }
+  return rates.sort((a, b) => b.rate - a.rate || b.saved - a.saved);
+}
@@ -0,0 +1,166 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+import { Article } from './types';
+
+// Format of a single shard file, versioned separately from data.json
+interface ArticleShard {
+  version: number;
+  articles: Record<string, Article>;
+}
+
+const SHARD_VERSION = 1;
+
+/**
+ * Shard key for an article: the month it was fetched. `fetchedAt` never changes,
+ * so an article stays in one shard, and swiping through recent articles only
+ * rewrites the small current-month file.
+ */
+export function getShardKey(article: Article): string {
+  return /^\d{4}-\d{2}/.test(article.fetchedAt) ? article.fetchedAt.substring(0, 7) : 'undated';
+}
+
+/**
+ * Article cache stored as per-month JSON shards in the plugin folder.
+ * The full articles map stays in memory; the store keeps an index of which
+ * DOIs live in which shard and rewrites only the shards marked dirty.
+ */
+export class ArticleStore {
+  private adapter: DataAdapter;
+  private folder: string;
+  // Shard key -> DOIs stored in that shard
+  private shards: Map<string, Set<string>> = new Map();
+  private dirty: Set<string> = new Set();
+  // Shards that exist on disk but could not be parsed; never overwritten
+  private unreadable: Set<string> = new Set();
+
+  constructor(adapter: DataAdapter, pluginDir: string) {
+    this.adapter = adapter;
+    this.folder = normalizePath(`${pluginDir}/articles`);
+  }
+
+  /**
+   * Read every shard and rebuild the index
+   */
+  async load(): Promise<Record<string, Article>> {
+    this.shards.clear();
+    this.dirty.clear();
+    const articles = await this.readAll();
+    for (const article of Object.values(articles)) {
+      this.track(article, false);
+    }
+    return articles;
+  }
+
+  /**
+   * Read every shard without touching the index, e.g. to merge copies written by another device
+   */
+  async readAll(): Promise<Record<string, Article>> {
+    const articles: Record<string, Article> = {};
+    if (!(await this.adapter.exists(this.folder))) return articles;
+
+    const listing = await this.adapter.list(this.folder);
+    for (const path of listing.files.filter(file => file.endsWith('.json'))) {
+      const key = path.substring(path.lastIndexOf('/') + 1).replace(/\.json$/, '');
+      try {
+        const shard = JSON.parse(await this.adapter.read(path)) as ArticleShard;
+        Object.assign(articles, shard.articles);
+        this.unreadable.delete(key);
+      } catch (error) {
+        console.error(`Journal Monitor: Could not read article shard ${path}:`, error);
+        this.unreadable.add(key);
+      }
+    }
+    return articles;
+  }
+
+  /**
+   * Add an article to the index. By default its shard is marked for the next flush.
+   */
+  track(article: Article, dirty = true) {
+    const key = getShardKey(article);
+    let dois = this.shards.get(key);
+    if (!dois) {
+      dois = new Set();
+      this.shards.set(key, dois);
+    }
+    dois.add(article.doi);
+    if (dirty) this.dirty.add(key);
+  }
+
+  /**
+   * Drop an article from the index and mark its shard for rewriting
+   */
+  remove(article: Article) {
+    const key = getShardKey(article);
+    this.shards.get(key)?.delete(article.doi);
+    this.dirty.add(key);
+  }
+
+  hasPendingWrites(): boolean {
+    return this.dirty.size > 0;
+  }
+
+  /**
+   * Write every dirty shard from the in-memory articles map. Empty shards are deleted.
+   */
+  async flush(articles: Record<string, Article>) {
+    if (this.dirty.size === 0) return;
+
+    // Take the dirty set up front so changes made while writing go into the next flush
+    const keys = Array.from(this.dirty);
+    this.dirty.clear();
+
+    if (!(await this.adapter.exists(this.folder))) {
+      await this.adapter.mkdir(this.folder);
+    }
+
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i];
+      if (this.unreadable.has(key)) {
+        console.error(`Journal Monitor: Not overwriting unreadable article shard ${key}`);
+        continue;
+      }
+
+      const path = this.getShardPath(key);
+      const shard: ArticleShard = { version: SHARD_VERSION, articles: {} };
+      for (const doi of this.shards.get(key) || []) {
+        const article = articles[doi];
+        if (article) {
+          shard.articles[doi] = article;
+        } else {
+          this.shards.get(key)?.delete(doi);
+        }
+      }
+
+      try {
+        if (Object.keys(shard.articles).length === 0) {
+          this.shards.delete(key);
+          if (await this.adapter.exists(path)) {
+            await this.adapter.remove(path);
+          }
+        } else {
+          await this.adapter.write(path, JSON.stringify(shard));
+        }
+      } catch (error) {
+        // Retry this and the remaining shards with the next flush
+        keys.slice(i).forEach(k => this.dirty.add(k));
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Delete all shards from disk and reset the index
+   */
+  async clear() {
+    this.shards.clear();
+    this.dirty.clear();
+    this.unreadable.clear();
+    if (await this.adapter.exists(this.folder)) {
+      await this.adapter.rmdir(this.folder, true);
+    }
+  }
+
+  private getShardPath(key: string): string {
+    return normalizePath(`${this.folder}/${key}.json`);
+  }
+}
@@ -0,0 +1,142 @@
+import { Article, ArticleState, JournalMonitorData, ReadingStatus } from './types';
+import { computeDailyStats, mergeDailyStats } from './stats';
+import { copyArticleField } from './utils';
+
+/**
+ * Change an article's triage state and stamp it for cross-device merging
+ */
+export function setArticleState(article: Article, state: ArticleState): void {
+  const now = new Date().toISOString();
+  article.state = state;
+  article.stateChangedAt = now;
+  if (state === 'viewed' && !article.viewedAt) article.viewedAt = now;
+  if (state === 'saved') {
+    article.savedAt = now;
+    if (!article.readingStatus) article.readingStatus = 'to-read';
+  }
+}
+
+/**
+ * Change a saved article's reading status. It is stamped like a state change so the
+ * newer status wins when devices merge.
+ */
+export function setReadingStatus(article: Article, status: ReadingStatus): void {
+  article.readingStatus = status;
+  article.stateChangedAt = new Date().toISOString();
+}
+
+/**
+ * When an article's state last changed. Older data has no `stateChangedAt`,
+ * so fall back to the latest per-state timestamp.
+ */
+function stateStamp(article: Article): string {
+  return article.stateChangedAt || article.savedAt || article.viewedAt || article.fetchedAt || '';
+}
+
+// Fields the newer copy may lack because only the other device filled them in: backfilled
+// metadata, and the citation key, which is assigned once and never removed. State fields
+// (state, savedPath, readingStatus, savedAt...) are never taken from the older copy, since
+// their absence can be deliberate, e.g. after the note was deleted.
+const BACKFILLED_FIELDS: (keyof Article)[] = ['abstract', 'volume', 'issue', 'pages', 'keywords', 'openAccessUrl', 'citekey'];
+
+/**
+ * Merge one article from another device into the local copy, in place.
+ * State is last-write-wins; bibliographic metadata that only one side has (e.g. a backfilled
+ * abstract) is kept.
+ */
+function mergeArticle(local: Article, remote: Article): void {
+  const winner = stateStamp(remote) > stateStamp(local) ? remote : local;
+  const loser = winner === remote ? local : remote;
+  const merged: Article = { ...winner };
+
+  for (const key of BACKFILLED_FIELDS) {
+    const value = merged[key];
+    if ((value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) && loser[key] !== undefined) {
+      copyArticleField(merged, loser, key);
+    }
+  }
+
+  // Mutate rather than replace so open views holding this object see the merged state. Fields the
+  // winner dropped are removed too, or Object.assign would leave the old values in place.
+  for (const key of Object.keys(local) as (keyof Article)[]) {
+    if (!(key in merged)) delete local[key];
+  }
+  Object.assign(local, merged);
+}
+
+/**
+ * Recompute statistics from the article cache instead of keeping counters,
+ * so they stay correct after merging data written by other devices.
+ */
+export function computeStatistics(articles: Record<string, Article>): JournalMonitorData['statistics'] {
+  const statistics: JournalMonitorData['statistics'] = {
+    totalFetched: 0,
+    totalSaved: 0,
+    totalSkipped: 0,
+    byJournal: {},
+  };
+
+  for (const article of Object.values(articles)) {
+    const journal = statistics.byJournal[article.journalIssn]
+      || (statistics.byJournal[article.journalIssn] = { fetched: 0, saved: 0, skipped: 0 });
+
+    statistics.totalFetched++;
+    journal.fetched++;
+
+    if (article.state === 'saved') {
+      statistics.totalSaved++;
+      journal.saved++;
+    } else if (article.state === 'skipped') {
+      statistics.totalSkipped++;
+      journal.skipped++;
+    }
+  }
+
+  return statistics;
+}
+
+/**
+ * Merge plugin data written by another device into the local data, in place.
+ * Articles merge per DOI, sync watermarks, tombstones and run history are unioned, daily
+ * rollups keep the larger counts, and the browse position stays local since it belongs to
+ * this device's session.
+ */
+export function mergePluginData(local: JournalMonitorData, remote: Partial<JournalMonitorData>): void {
+  for (const [doi, remoteArticle] of Object.entries(remote.articles || {})) {
+    const localArticle = local.articles[doi];
+    if (localArticle) {
+      mergeArticle(localArticle, remoteArticle);
+    } else {
+      local.articles[doi] = remoteArticle;
+    }
+  }
+
+  for (const [issn, remoteSync] of Object.entries(remote.journalSync || {})) {
+    const localSync = local.journalSync[issn];
+    if (!localSync || remoteSync.lastSuccessfulFetch > localSync.lastSuccessfulFetch) {
+      local.journalSync[issn] = remoteSync;
+    }
+  }
+
+  for (const [doi, removedAt] of Object.entries(remote.tombstones || {})) {
+    if (!local.tombstones[doi] || removedAt > local.tombstones[doi]) {
+      local.tombstones[doi] = removedAt;
+    }
+  }
+
+  const runLimit = Math.max(local.runs.length, remote.runs?.length || 0);
+  const runs = new Map(local.runs.map(run => [run.startedAt, run]));
+  for (const run of remote.runs || []) {
+    if (!runs.has(run.startedAt)) runs.set(run.startedAt, run);
+  }
+  local.runs = Array.from(runs.values())
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .slice(0, runLimit);
+
+  if (remote.lastFetch && (!local.lastFetch || remote.lastFetch > local.lastFetch)) {
+    local.lastFetch = remote.lastFetch;
+  }
+
+  local.statistics = computeStatistics(local.articles);
+  local.daily = computeDailyStats(local.articles, mergeDailyStats(local.daily, remote.daily || {}));
+}
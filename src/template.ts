@@ -0,0 +1,303 @@
+/**
+ * Minimal Handlebars-style template engine for saved article notes.
+ *
+ * - `{{field}}` inserts a value; lists are joined with ", ", missing values render empty
+ * - `{{field | filter}}` / `{{field | filter:"arg"}}` applies filters (see FILTERS)
+ * - `{{#if field}}…{{else}}…{{/if}}` and `{{#unless field}}…{{/unless}}` test for a
+ *   non-empty value (empty strings and empty lists are false)
+ * - `{{#each list}}…{{/each}}` loops; inside, `{{this}}`, `{{@index}}`, `{{@number}}`,
+ *   `{{@first}}` and `{{@last}}` refer to the current item
+ *
+ * A block tag alone on its line removes the whole line, so templates can be laid out naturally.
+ */
+
+export type TemplateValue = string | number | boolean | null | undefined | TemplateValue[] | TemplateContext;
+
+export interface TemplateContext {
+  [key: string]: TemplateValue;
+}
+
+interface TemplateFilter {
+  name: string;
+  arg?: string;
+}
+
+export type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; path: string; filters: TemplateFilter[] }
+  | { type: 'if'; path: string; negate: boolean; body: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+// Built-in note layout, also written out by "Create template file" as a starting point
+export const DEFAULT_NOTE_TEMPLATE = `---
+title: "{{title | yaml}}"
+authors:
+{{#each authors}}
+  - "{{this | yaml}}"
+{{/each}}
+journal: "{{journal | yaml}}"
+{{#if volume}}
+volume: "{{volume | yaml}}"
+{{/if}}
+{{#if issue}}
+issue: "{{issue | yaml}}"
+{{/if}}
+{{#if pages}}
+pages: "{{pages | yaml}}"
+{{/if}}
+year: {{year}}
+date: {{date}}
+{{#if doi}}
+doi: "{{doi | yaml}}"
+{{/if}}
+url: "{{url | yaml}}"
+issn: "{{issn | yaml}}"
+{{#if openAccessUrl}}
+open_access_url: "{{openAccessUrl | yaml}}"
+{{/if}}
+{{#if keywords}}
+keywords:
+{{#each keywords}}
+  - "{{this | yaml}}"
+{{/each}}
+{{/if}}
+status: {{readingStatus}}
+tags:
+  - literature
+{{#if journalTag}}
+  - "journal/{{journalTag}}"
+{{/if}}
+saved: {{savedDate}}
+---
+
+# {{title}}
+
+**Authors:** {{authors}}
+
+**Journal:** {{journal}}{{#if volume}} | Volume {{volume}}{{/if}}{{#if issue}} | Issue {{issue}}{{/if}}{{#if pages}} | Pages {{pages}}{{/if}}
+
+**Published:** {{publishedDate}}
+
+{{#if doi}}
+**DOI:** [{{doi}}]({{url}})
+{{else}}
+**Link:** [{{url}}]({{url}})
+{{/if}}
+{{#if openAccessUrl}}
+
+**Open Access:** [PDF]({{openAccessUrl}})
+{{/if}}
+
+**Citation:** {{citation}}
+
+---
+
+{{#if abstract}}
+## Abstract
+
+{{abstract}}
+
+---
+
+{{/if}}
+## Notes
+
+<!-- Your reading notes here -->
+
+
+{{#if bibtex}}
+---
+
+## BibTeX
+
+\`\`\`bibtex
+{{bibtex}}
+\`\`\`
+{{/if}}
+`;
+
+/**
+ * Escape a value for use inside a double-quoted YAML string
+ */
+export function escapeYaml(str: string): string {
+  return str.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, ' ');
+}
+
+const FILTERS: Record<string, (value: TemplateValue, arg?: string) => TemplateValue> = {
+  yaml: value => escapeYaml(stringify(value)),
+  join: (value, arg) => Array.isArray(value) ? value.map(stringify).join(arg ?? ', ') : value,
+  lower: value => stringify(value).toLowerCase(),
+  upper: value => stringify(value).toUpperCase(),
+  slug: value => stringify(value).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''),
+  default: (value, arg) => isTruthy(value) ? value : arg ?? '',
+  first: value => Array.isArray(value) ? value[0] : value,
+};
+
+const TAG_PATTERN = /{{\s*([^{}]+?)\s*}}/;
+
+// Block tags alone on a line (with optional indentation) swallow the line break
+const STANDALONE_PATTERN = /^[ \t]*({{\s*(?:[#/][^{}]*|else)\s*}})[ \t]*(?:\r?\n|$)/gm;
+
+/**
+ * Parse a template, throwing a TemplateError for unknown filters or unbalanced blocks
+ */
+export function compileTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open blocks, innermost last; `target` is where the next node is appended
+  const stack: { node: Extract<TemplateNode, { type: 'if' | 'each' }>; tag: string; target: TemplateNode[] }[] = [];
+  let target = root;
+
+  const text = source.replace(STANDALONE_PATTERN, '$1');
+  const pattern = new RegExp(TAG_PATTERN.source, 'g');
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      target.push({ type: 'text', text: text.substring(lastIndex, match.index) });
+    }
+    lastIndex = match.index + match[0].length;
+
+    const tag = match[1];
+    const block = tag.match(/^#(if|unless|each)\s+(\S+)$/);
+
+    if (block) {
+      const node: Extract<TemplateNode, { type: 'if' | 'each' }> = block[1] === 'each'
+        ? { type: 'each', path: block[2], body: [], otherwise: [] }
+        : { type: 'if', path: block[2], negate: block[1] === 'unless', body: [], otherwise: [] };
+      target.push(node);
+      stack.push({ node, tag: block[1], target });
+      target = node.body;
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || target === open.node.otherwise) {
+        throw new TemplateError('{{else}} outside of an {{#if}}, {{#unless}} or {{#each}} block');
+      }
+      target = open.node.otherwise;
+    } else if (tag.startsWith('/')) {
+      const open = stack.pop();
+      if (!open || open.tag !== tag.substring(1).trim()) {
+        throw new TemplateError(`Unexpected {{${tag}}}${open ? `, expected {{/${open.tag}}}` : ''}`);
+      }
+      target = open.target;
+    } else if (tag.startsWith('#')) {
+      throw new TemplateError(`Unknown block {{${tag}}}`);
+    } else {
+      target.push(parseValueTag(tag));
+    }
+  }
+
+  if (lastIndex < text.length) {
+    target.push({ type: 'text', text: text.substring(lastIndex) });
+  }
+
+  if (stack.length > 0) {
+    throw new TemplateError(`Missing {{/${stack[stack.length - 1].tag}}}`);
+  }
+
+  return root;
+}
+
+/**
+ * Render a template (source or compiled) against a context
+ */
+export function renderTemplate(template: string | TemplateNode[], context: TemplateContext): string {
+  const nodes = typeof template === 'string' ? compileTemplate(template) : template;
+  return renderNodes(nodes, [context]);
+}
+
+function parseValueTag(tag: string): TemplateNode {
+  const [path, ...filterParts] = tag.split(/\s*\|\s*(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const filters = filterParts.map(part => {
+    const match = part.match(/^(\w+)(?::"([^"]*)")?$/);
+    if (!match || !FILTERS[match[1]]) {
+      throw new TemplateError(`Unknown filter "${part}" in {{${tag}}}`);
+    }
+    return { name: match[1], arg: match[2] };
+  });
+  return { type: 'value', path: path.trim(), filters };
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateContext[]): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.text;
+        break;
+      case 'value': {
+        let value = lookup(node.path, scopes);
+        for (const filter of node.filters) {
+          value = FILTERS[filter.name](value, filter.arg);
+        }
+        output += stringify(value);
+        break;
+      }
+      case 'if': {
+        const truthy = isTruthy(lookup(node.path, scopes));
+        output += renderNodes(truthy !== node.negate ? node.body : node.otherwise, scopes);
+        break;
+      }
+      case 'each': {
+        const value = lookup(node.path, scopes);
+        const items = Array.isArray(value) ? value : isTruthy(value) ? [value] : [];
+        if (items.length === 0) {
+          output += renderNodes(node.otherwise, scopes);
+          break;
+        }
+        items.forEach((item, index) => {
+          const scope: TemplateContext = {
+            this: item,
+            '@index': index,
+            '@number': index + 1,
+            '@first': index === 0,
+            '@last': index === items.length - 1,
+          };
+          output += renderNodes(node.body, [...scopes, scope]);
+        });
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Resolve a dotted path, innermost scope first. Unknown names resolve to undefined.
+ */
+function lookup(path: string, scopes: TemplateContext[]): TemplateValue {
+  const [head, ...rest] = path.split('.');
+
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (!(head in scopes[i])) continue;
+
+    let value: TemplateValue = scopes[i][head];
+    for (const key of rest) {
+      value = value && typeof value === 'object' && !Array.isArray(value) ? value[key] : undefined;
+    }
+    return value;
+  }
+
+  return undefined;
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== false && value !== '';
+}
+
+function stringify(value: TemplateValue): string {
+  if (value === undefined || value === null || value === false) return '';
+  if (Array.isArray(value)) return value.map(stringify).join(', ');
+  if (typeof value === 'object') return '';
+  return String(value);
+}
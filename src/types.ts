@@ -1,18 +1,53 @@
+import type { ApiError } from './api';
+
 // Article state in the browse queue
 export type ArticleState = 'unseen' | 'viewed' | 'saved' | 'skipped';
 
+// Reading lifecycle of a saved article, mirrored from its note (see reading.ts)
+export type ReadingStatus = 'to-read' | 'reading' | 'read' | 'cited';
+
+// Article sources that can feed a journal
+export type ProviderId =
+  | 'openalex'
+  | 'crossref'
+  | 'pubmed'
+  | 'semanticscholar'
+  | 'arxiv'
+  | 'biorxiv'
+  | 'medrxiv'
+  | 'rss';
+
+export const PROVIDER_NAMES: Record<ProviderId, string> = {
+  openalex: 'OpenAlex',
+  crossref: 'CrossRef',
+  pubmed: 'PubMed',
+  semanticscholar: 'Semantic Scholar',
+  arxiv: 'arXiv',
+  biorxiv: 'bioRxiv',
+  medrxiv: 'medRxiv',
+  rss: 'RSS/Atom feed',
+};
+
 // Journal configuration
 export interface JournalConfig {
   name: string;
+  // ISSN for journals; a synthetic key such as `arxiv:physics.geo-ph` for preprint feeds
   issn: string;
   issnElectronic?: string;
   publisher: string;
   enabled: boolean;
   color?: string;
+  // Source feeding this journal; falls back to the global `apiProvider` when unset
+  provider?: ProviderId;
+  // Provider-specific selector: arXiv category, bioRxiv/medRxiv subject or Semantic Scholar venue
+  sourceQuery?: string;
+  // Table-of-contents feed (RSS 2.0, RSS 1.0/RDF or Atom) used by the `rss` provider
+  feedUrl?: string;
 }
 
 // Article metadata from API
 export interface Article {
+  // DOI, or a synthetic `feed:<hash>` key for feed entries that have none
   doi: string;
   title: string;
   authors: string[];
@@ -32,7 +67,15 @@ export interface Article {
   fetchedAt: string;
   viewedAt?: string;
   savedAt?: string;
+  stateChangedAt?: string;  // Used to merge state changed on other devices
   savedPath?: string;
+  // Set while saved; follows the note's `status` frontmatter or tags
+  readingStatus?: ReadingStatus;
+  // Citation key, assigned once when the article is saved or exported
+  citekey?: string;
+  // When a library import added the article or marked it saved. Articles it added were never
+  // fetched, and saves it recorded were not triaged, so activity statistics leave them out.
+  importedAt?: string;
 }
 
 // Browse position state
@@ -48,53 +91,169 @@ export interface FilterConfig {
   customDateFrom?: string;
   customDateTo?: string;
   journals: string[]; // ISSNs
-  keywords: string[];
+  // Search query; see query.ts for the syntax
+  query: string;
+  // Unfielded query terms also search abstracts and keywords, not just titles
   searchInAbstracts: boolean;
-  showState: 'unseen' | 'all' | 'viewed' | 'saved' | 'skipped';
-  sortBy: 'date-desc' | 'date-asc' | 'journal';
+  // Query terms match word variants ("forests" for "forest")
+  stemming: boolean;
+  // Triage state, or the reading status of saved articles
+  showState: 'unseen' | 'all' | 'viewed' | 'saved' | 'skipped' | ReadingStatus;
+  sortBy: 'date-desc' | 'date-asc' | 'journal' | 'relevance';
+}
+
+// Named filter preset with its own browse position
+export interface Feed {
+  id: string;
+  name: string;
+  filter: FilterConfig;
+}
+
+// Bundled CSL style, or 'custom' for a .csl file in the vault
+export type CitationStyleId = 'apa' | 'chicago-author-date' | 'nature' | 'agu' | 'custom';
+
+// Routes saved notes for matching articles into a folder
+export interface FolderRule {
+  match: 'journal' | 'year' | 'keyword';
+  // ISSN or journal name, a year or range (2020-2022), or a keyword found in title/abstract/keywords
+  value: string;
+  // May use filename pattern fields, e.g. `Literature/{{year}}`
+  folder: string;
 }
 
 // Plugin settings
 export interface JournalMonitorSettings {
   // Storage locations
   savedArticlesFolder: string;
+  // Note filename, e.g. `{{citekey}}` or `{{year}}/{{journal}}/{{title}}`
+  filenamePattern: string;
+  // Checked in order; the first match overrides savedArticlesFolder
+  folderRules: FolderRule[];
+  // What happens to a saved article when its note is deleted: offer to unsave it, unsave it, or keep it saved
+  deletedNoteAction: 'ask' | 'unsave' | 'keep';
   masterIndexPath: string;
   journalIndicesFolder: string;
+  // Rewrite a journal's index note after fetches and saves
+  autoUpdateJournalIndices: boolean;
   
   // Journal subscriptions
   journals: JournalConfig[];
   
   // Sync settings
-  apiProvider: 'openalex' | 'crossref';
-  autoFetchFrequency: 'startup' | 'daily' | 'weekly' | 'manual';
+  apiProvider: ProviderId;
+  autoFetchFrequency: 'startup' | 'daily' | 'weekly' | 'custom' | 'manual';
+  // Interval used when autoFetchFrequency is 'custom'
+  autoFetchIntervalHours: number;
   fetchOnStartup: boolean;
   articlesPerFetch: number;
+  maxArticlesPerJournal: number;
   lookbackDays: number;
   
+  // Vault path of a reference-manager export (.bib, .ris or CSL-JSON) whose entries are marked saved
+  libraryPath: string;
+  // Vault folder for exported state bundles (see backup.ts)
+  backupFolder: string;
+  // Retention: days before skipped / viewed-but-unsaved articles expire (0 = keep forever)
+  skippedRetentionDays: number;
+  viewedRetentionDays: number;
+  
   // API keys
   openAlexEmail?: string;
   crossRefEmail?: string;
+  ncbiApiKey?: string;
+  semanticScholarApiKey?: string;
   
   // Note templates
+  // Vault path of a custom note template; empty uses the built-in layout
+  noteTemplatePath: string;
   includeAbstract: boolean;
   includeKeywords: boolean;
   includeBibtex: boolean;
   autoTagWithJournal: boolean;
   
+  // Citations
+  // Better BibTeX-style key pattern, e.g. `[auth:lower][year][veryshorttitle:lower]`
+  citekeyPattern: string;
+  // Vault path of the exported bibliography; RIS and CSL-JSON use the same name with their extension
+  bibExportPath: string;
+  bibExportFormat: 'bibtex' | 'biblatex';
+  // Style of the formatted reference in notes, index files and "Copy citation"
+  citationStyle: CitationStyleId;
+  // Vault path of a .csl file, used when citationStyle is 'custom'
+  cslStylePath: string;
+  
   // Notifications
   notifyOnNewArticles: boolean;
   showBadgeCount: boolean;
   
-  // Current filter state
+  // Current filter state (the filter of the default feed)
   currentFilter: FilterConfig;
+  // Named feeds, each with its own filter
+  feeds: Feed[];
+  // Feed shown in the browser; '' for the default feed
+  activeFeedId: string;
+}
+
+// Incremental fetch state for a single journal
+export interface JournalSyncState {
+  // Start time of the last fetch that completed without errors or truncation; after a
+  // truncated incremental fetch, when the last work it retrieved was created or indexed
+  lastSuccessfulFetch: string;
+}
+
+// Outcome for one journal within a fetch run
+export interface JournalRunReport {
+  issn: string;
+  name: string;
+  provider: ProviderId;
+  // Articles returned by the provider
+  fetched: number;
+  // Articles not seen before
+  added: number;
+  // Articles already in the cache
+  duplicates: number;
+  failed: boolean;
+  truncated: boolean;
+  error?: string;
+}
+
+// Structured log of a single fetch run
+export interface FetchRunReport {
+  startedAt: string;
+  finishedAt: string;
+  // Default provider at the time of the run (journals may override it)
+  provider: ProviderId;
+  journals: JournalRunReport[];
+}
+
+// Activity on one day (UTC), kept so history outlives articles pruned from the cache
+export interface DailyStats {
+  fetched: number;
+  saved: number;
+  skipped: number;
+  // Unseen articles at the end of the day
+  backlog: number;
+  // Days from publication to triage for each article saved or skipped that day
+  triageLags: number[];
 }
 
 // Plugin data (persisted state)
 export interface JournalMonitorData {
   version: string;
   lastFetch: string | null;
+  // Article cache, keyed by DOI. Since version 2 it is kept in per-month shards
+  // under the plugin folder and written to data.json as an empty object.
   articles: Record<string, Article>;
+  // Per-journal incremental fetch watermarks, keyed by ISSN
+  journalSync: Record<string, JournalSyncState>;
+  // Most recent fetch runs, newest first
+  runs: FetchRunReport[];
+  // DOIs removed by retention rules, with removal time, so fetches don't bring them back
+  tombstones: Record<string, string>;
+  // Browse position of the default feed
   browsePosition: BrowsePosition;
+  // Browse positions of named feeds, keyed by feed ID
+  feedPositions: Record<string, BrowsePosition>;
   statistics: {
     totalFetched: number;
     totalSaved: number;
@@ -105,8 +264,13 @@ export interface JournalMonitorData {
       skipped: number;
     }>;
   };
+  // Daily rollups, keyed by YYYY-MM-DD
+  daily: Record<string, DailyStats>;
 }
 
+// Triggered on the plugin's `events` after data is written, so live views can re-render
+export const DATA_CHANGED_EVENT = 'data-changed';
+
 // OpenAlex API response types
 export interface OpenAlexWork {
   id: string;
@@ -115,6 +279,8 @@ export interface OpenAlexWork {
   display_name: string;
   publication_date: string;
   publication_year: number;
+  // When the work was added to OpenAlex (YYYY-MM-DD)
+  created_date?: string;
   primary_location?: {
     source?: {
       display_name: string;
@@ -154,8 +320,9 @@ export interface OpenAlexWork {
 export interface OpenAlexResponse {
   meta: {
     count: number;
-    page: number;
+    page: number | null;
     per_page: number;
+    next_cursor?: string | null;
   };
   results: OpenAlexWork[];
 }
@@ -185,6 +352,10 @@ export interface CrossRefWork {
   abstract?: string;
   ISSN?: string[];
   subject?: string[];
+  // When CrossRef last indexed the work
+  indexed?: {
+    'date-time': string;
+  };
 }
 
 export interface CrossRefResponse {
@@ -192,10 +363,113 @@ export interface CrossRefResponse {
   'message-type': string;
   message: {
     'total-results': number;
+    'next-cursor'?: string;
     items: CrossRefWork[];
   };
 }
 
+export interface CrossRefJournalResponse {
+  status: string;
+  message: {
+    title: string;
+    publisher?: string;
+    ISSN?: string[];
+    'issn-type'?: Array<{
+      value: string;
+      type: 'print' | 'electronic';
+    }>;
+  };
+}
+
+// bioRxiv / medRxiv API response types
+export interface BiorxivPreprint {
+  doi: string;
+  title: string;
+  authors: string;
+  date: string;
+  version: string;
+  category: string;
+  abstract?: string;
+  published?: string;
+  server?: string;
+}
+
+export interface BiorxivResponse {
+  messages: Array<{
+    status: string;
+    cursor?: number | string;
+    count?: number | string;
+    total?: number | string;
+  }>;
+  collection: BiorxivPreprint[];
+}
+
+// PubMed E-utilities response types
+export interface PubMedSearchResponse {
+  esearchresult: {
+    count: string;
+    idlist: string[];
+  };
+}
+
+export interface NlmCatalogSummaryResponse {
+  result: {
+    uids: string[];
+    [uid: string]: {
+      titlemainlist?: Array<{ title: string }>;
+      medlineta?: string;
+      publicationinfolist?: Array<{ publisher?: string }>;
+      issnlist?: Array<{ issn: string; issntype: string }>;
+    } | string[];
+  };
+}
+
+// Semantic Scholar Graph API response types
+export interface SemanticScholarPaper {
+  paperId: string;
+  externalIds?: {
+    DOI?: string;
+    ArXiv?: string;
+    PubMed?: string;
+  };
+  title: string;
+  abstract?: string | null;
+  authors?: Array<{ name: string }>;
+  venue?: string;
+  year?: number | null;
+  publicationDate?: string | null;
+  journal?: {
+    name?: string;
+    volume?: string;
+    pages?: string;
+  } | null;
+  openAccessPdf?: {
+    url?: string;
+  } | null;
+  fieldsOfStudy?: string[] | null;
+}
+
+export interface SemanticScholarSearchResponse {
+  total: number;
+  token?: string | null;
+  next?: number;
+  data: SemanticScholarPaper[];
+}
+
+// Result of a paged fetch for a single journal
+export interface JournalFetchResult {
+  articles: Article[];
+  // Total matching works reported by the API (may exceed articles.length when capped)
+  total: number;
+  // True when the per-journal cap stopped paging before the source was exhausted
+  truncated: boolean;
+  // Set when an incremental fetch (`since`) was truncated: when the last work returned was
+  // created or indexed. Works come oldest first then, so the next fetch can continue from there.
+  resumeFrom?: string;
+  // Set when a request failed after retries; `articles` then holds only the pages fetched before it
+  error?: ApiError;
+}
+
 // Default journals configuration
 export const DEFAULT_JOURNALS: JournalConfig[] = [
   { name: 'Remote Sensing of Environment', issn: '0034-4257', issnElectronic: '1879-0704', publisher: 'Elsevier', enabled: true },
@@ -215,46 +489,72 @@ export const DEFAULT_JOURNALS: JournalConfig[] = [
 // Default settings
 export const DEFAULT_SETTINGS: JournalMonitorSettings = {
   savedArticlesFolder: 'Literature/Journal Articles',
+  filenamePattern: '{{author}}{{year}}-{{titleWords}}',
+  folderRules: [],
+  deletedNoteAction: 'ask',
   masterIndexPath: 'Literature/00-Journal-Index.md',
   journalIndicesFolder: 'Literature/Journals',
+  autoUpdateJournalIndices: true,
   journals: DEFAULT_JOURNALS,
   apiProvider: 'openalex',
   autoFetchFrequency: 'daily',
+  autoFetchIntervalHours: 6,
   fetchOnStartup: true,
   articlesPerFetch: 50,
+  maxArticlesPerJournal: 500,
   lookbackDays: 30,
+  libraryPath: '',
+  backupFolder: 'Literature/Journal Monitor Backups',
+  skippedRetentionDays: 30,
+  viewedRetentionDays: 90,
   openAlexEmail: '',
   crossRefEmail: '',
+  ncbiApiKey: '',
+  semanticScholarApiKey: '',
+  noteTemplatePath: '',
   includeAbstract: true,
   includeKeywords: true,
   includeBibtex: true,
   autoTagWithJournal: true,
+  citekeyPattern: '[auth:lower][year][veryshorttitle:lower]',
+  bibExportPath: 'Literature/references.bib',
+  bibExportFormat: 'bibtex',
+  citationStyle: 'apa',
+  cslStylePath: '',
   notifyOnNewArticles: true,
   showBadgeCount: true,
   currentFilter: {
     dateRange: 'month',
     journals: [],
-    keywords: [],
+    query: '',
     searchInAbstracts: true,
+    stemming: false,
     showState: 'unseen',
     sortBy: 'date-desc',
   },
+  feeds: [],
+  activeFeedId: '',
 };
 
 // Default data
 export const DEFAULT_DATA: JournalMonitorData = {
-  version: '1.0.0',
+  version: '2.0.0',
   lastFetch: null,
   articles: {},
+  journalSync: {},
+  runs: [],
+  tombstones: {},
   browsePosition: {
     currentDoi: null,
     filterHash: '',
     scrollIndex: 0,
   },
+  feedPositions: {},
   statistics: {
     totalFetched: 0,
     totalSaved: 0,
     totalSkipped: 0,
     byJournal: {},
   },
+  daily: {},
 };
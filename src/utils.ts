@@ -1,182 +1,257 @@
-import { App, TFile, TFolder, normalizePath } from 'obsidian';
-import { Article, JournalMonitorSettings, FilterConfig } from './types';
+import { App, Notice, TFile, TFolder, normalizePath } from 'obsidian';
+import {
+  Article,
+  BrowsePosition,
+  DEFAULT_SETTINGS,
+  Feed,
+  JournalMonitorData,
+  JournalMonitorSettings,
+  FilterConfig,
+  FolderRule,
+  ReadingStatus
+} from './types';
+import { formatCitekey, parseAuthorName, toBibtex } from './citation';
+import { CslStyle, DEFAULT_CITATION_STYLE, formatReference, getBundledStyle, parseCslStyle } from './csl';
+import { QueryNode, QueryOptions, keywordsToQuery, matchesQuery, parseQuery } from './query';
+import { RelevanceModel, buildRelevanceModel, sortByRelevance } from './relevance';
+import { READING_STATUSES, READING_STATUS_LABELS, countReadingStatuses, getReadingStatus } from './reading';
+import { DEFAULT_NOTE_TEMPLATE, TemplateContext, TemplateNode, compileTemplate, renderTemplate } from './template';
 
 /**
- * Generate a safe filename from article title
+ * Whether an article key is a real DOI (feed entries without one get a synthetic key)
  */
-export function generateFilename(article: Article): string {
-  const firstAuthorRaw = article.authors[0]?.split(',')[0]?.split(' ').pop() || 'Unknown';
-  const firstAuthor = firstAuthorRaw.replace(/[^\w\s-]/g, '');
-  const year = String(article.year).replace(/[^\w\s-]/g, '');
-  
-  // Clean title for filename
+export function isDoi(key: string): boolean {
+  return /^10\.\d{4,9}\//.test(key);
+}
+
+// Filename pattern matching the original AuthorYear-First-Five-Words names
+export const DEFAULT_FILENAME_PATTERN = '{{author}}{{year}}-{{titleWords}}';
+
+// Longest file or folder name a pattern may produce
+const MAX_PATH_SEGMENT_LENGTH = 100;
+
+// Numbered variants tried when a filename is taken by another article
+const MAX_FILENAME_SUFFIX = 100;
+
+/**
+ * Strip characters that are not allowed in file names (including `/`)
+ */
+function sanitizeFilenamePart(value: string): string {
+  return value.replace(/[\\/:*?"<>|#^[\]]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Fields available to filename patterns and folder rules. Values are sanitized,
+ * so only `/` written in the pattern itself creates subfolders.
+ */
+function buildPathContext(article: Article): TemplateContext {
+  const author = (article.authors[0]?.split(',')[0]?.split(' ').pop() || 'Unknown').replace(/[^\w\s-]/g, '');
   const titleWords = article.title
     .replace(/[^\w\s-]/g, '')
     .split(/\s+/)
     .slice(0, 5)
     .join('-');
-  
-  return `${firstAuthor}${year}-${titleWords}`.substring(0, 100);
+
+  return {
+    author,
+    year: String(article.year).replace(/[^\w\s-]/g, ''),
+    month: article.date.substring(5, 7),
+    title: sanitizeFilenamePart(article.title),
+    titleWords,
+    journal: sanitizeFilenamePart(article.journal),
+    journalTag: article.journal.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''),
+    issn: sanitizeFilenamePart(article.journalIssn || ''),
+    citekey: article.citekey || formatCitekey(article),
+    'doi-slug': article.doi.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''),
+  };
 }
 
 /**
- * Generate markdown content for saved article
+ * Render a filename or folder pattern. Empty segments are dropped and long ones shortened.
  */
-export function generateArticleNote(article: Article, settings: JournalMonitorSettings): string {
-  const frontmatter = generateFrontmatter(article, settings);
-  const content = generateArticleContent(article, settings);
-  
-  return `---\n${frontmatter}---\n\n${content}`;
+function renderPathPattern(pattern: string, context: TemplateContext): string {
+  return renderTemplate(pattern, context)
+    .split('/')
+    .map(segment => segment.trim().substring(0, MAX_PATH_SEGMENT_LENGTH).trim())
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .join('/');
 }
 
 /**
- * Generate YAML frontmatter
+ * Generate a note filename (without extension) from a pattern; the pattern may add subfolders
  */
-function generateFrontmatter(article: Article, settings: JournalMonitorSettings): string {
-  const lines: string[] = [];
-  
-  lines.push(`title: "${escapeYaml(article.title)}"`);
-  
-  // Authors array
-  lines.push('authors:');
-  for (const author of article.authors) {
-    lines.push(`  - "${escapeYaml(author)}"`);
+export function generateFilename(article: Article, pattern: string = DEFAULT_FILENAME_PATTERN): string {
+  const context = buildPathContext(article);
+  let filename = '';
+  try {
+    filename = renderPathPattern(pattern || DEFAULT_FILENAME_PATTERN, context);
+  } catch (error) {
+    console.error('Journal Monitor: Invalid filename pattern:', error);
   }
-  
-  lines.push(`journal: "${escapeYaml(article.journal)}"`);
-  
-  if (article.volume) lines.push(`volume: "${escapeYaml(article.volume)}"`);
-  if (article.issue) lines.push(`issue: "${escapeYaml(article.issue)}"`);
-  if (article.pages) lines.push(`pages: "${escapeYaml(article.pages)}"`);
-  
-  lines.push(`year: ${article.year}`);
-  lines.push(`date: ${article.date}`);
-  lines.push(`doi: "${escapeYaml(article.doi || '')}"`);
-  lines.push(`url: "${escapeYaml(article.url || '')}"`);
-  lines.push(`issn: "${escapeYaml(article.journalIssn || '')}"`);
-  
-  if (article.openAccessUrl) {
-    lines.push(`open_access_url: "${escapeYaml(article.openAccessUrl)}"`);
-  }
-  
-  if (settings.includeKeywords && article.keywords && article.keywords.length > 0) {
-    lines.push('keywords:');
-    for (const kw of article.keywords) {
-      lines.push(`  - "${escapeYaml(kw)}"`);
+  return filename || renderPathPattern(DEFAULT_FILENAME_PATTERN, context);
+}
+
+/**
+ * Whether a folder rule applies to an article
+ */
+export function matchesFolderRule(article: Article, rule: FolderRule): boolean {
+  const value = rule.value.trim().toLowerCase();
+  if (!value) return false;
+
+  switch (rule.match) {
+    case 'journal':
+      return [article.journalIssn, article.journal].some(v => v?.toLowerCase() === value);
+    case 'year': {
+      const range = value.match(/^(\d{4})\s*-\s*(\d{4})$/);
+      if (range) return article.year >= Number(range[1]) && article.year <= Number(range[2]);
+      return String(article.year) === value;
     }
+    case 'keyword':
+      return [article.title, article.abstract || '', ...(article.keywords || [])]
+        .some(text => text.toLowerCase().includes(value));
   }
-  
-  // Tags
-  lines.push('tags:');
-  lines.push('  - literature');
-  lines.push('  - unread');
-  if (settings.autoTagWithJournal) {
-    const journalTag = article.journal
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '');
-    lines.push(`  - "journal/${journalTag}"`);
-  }
-  
-  lines.push(`saved: ${new Date().toISOString().split('T')[0]}`);
-  
-  return lines.join('\n') + '\n';
 }
 
 /**
- * Generate article content body
+ * Vault path (without extension) for an article's note: the first matching
+ * folder rule, or the saved articles folder, plus the filename pattern
  */
-function generateArticleContent(article: Article, settings: JournalMonitorSettings): string {
-  const lines: string[] = [];
-  
-  // Title
-  lines.push(`# ${article.title}`);
-  lines.push('');
-  
-  // Metadata
-  lines.push(`**Authors:** ${article.authors.join(', ')}`);
-  lines.push('');
-  
-  const citation = [article.journal];
-  if (article.volume) citation.push(`Volume ${article.volume}`);
-  if (article.issue) citation.push(`Issue ${article.issue}`);
-  if (article.pages) citation.push(`Pages ${article.pages}`);
-  lines.push(`**Journal:** ${citation.join(' | ')}`);
-  lines.push('');
-  
-  lines.push(`**Published:** ${formatDate(article.date)}`);
-  lines.push('');
-  
-  lines.push(`**DOI:** [${article.doi}](${article.url})`);
-  
-  if (article.openAccessUrl) {
-    lines.push('');
-    lines.push(`**Open Access:** [PDF](${article.openAccessUrl})`);
+export function getNotePath(article: Article, settings: JournalMonitorSettings): string {
+  const rule = settings.folderRules.find(r => matchesFolderRule(article, r));
+  let folder = rule ? rule.folder : settings.savedArticlesFolder;
+  try {
+    folder = renderPathPattern(folder, buildPathContext(article));
+  } catch (error) {
+    console.error('Journal Monitor: Invalid folder pattern:', error);
   }
-  
-  lines.push('');
-  lines.push('---');
-  lines.push('');
-  
-  // Abstract
-  if (settings.includeAbstract && article.abstract) {
-    lines.push('## Abstract');
-    lines.push('');
-    lines.push(article.abstract);
-    lines.push('');
-    lines.push('---');
-    lines.push('');
+  return normalizePath(`${folder}/${generateFilename(article, settings.filenamePattern)}`);
+}
+
+/**
+ * Copy one field between articles, keeping the field's type
+ */
+export function copyArticleField<K extends keyof Article>(to: Article, from: Article, key: K): void {
+  to[key] = from[key];
+}
+
+/**
+ * Wiki link target for an article's note: its saved path, or null when no note is known
+ * (e.g. saves imported from a BibTeX library)
+ */
+export function getNoteLinkTarget(article: Article): string | null {
+  return article.savedPath ? article.savedPath.replace(/\.md$/, '') : null;
+}
+
+/**
+ * Fields available to note templates. The "Include …" settings blank their fields,
+ * so they apply to custom templates as well as the built-in one.
+ */
+export function buildNoteContext(
+  article: Article,
+  settings: JournalMonitorSettings,
+  style: CslStyle = getBundledStyle(DEFAULT_CITATION_STYLE)
+): TemplateContext {
+  const journalTag = article.journal
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+  return {
+    title: article.title,
+    authors: article.authors,
+    firstAuthor: article.authors[0] || '',
+    journal: article.journal,
+    issn: article.journalIssn || '',
+    volume: article.volume,
+    issue: article.issue,
+    pages: article.pages,
+    year: article.year,
+    date: article.date,
+    publishedDate: formatDate(article.date),
+    doi: isDoi(article.doi) ? article.doi : '',
+    url: article.url || '',
+    openAccessUrl: article.openAccessUrl,
+    abstract: settings.includeAbstract ? article.abstract : '',
+    keywords: settings.includeKeywords ? article.keywords || [] : [],
+    citekey: article.citekey || formatCitekey(article, settings.citekeyPattern),
+    citation: formatReference(article, style),
+    bibtex: settings.includeBibtex ? toBibtex(article) : '',
+    journalTag: settings.autoTagWithJournal ? journalTag : '',
+    savedDate: new Date().toISOString().split('T')[0],
+    readingStatus: getReadingStatus(article),
+  };
+}
+
+/**
+ * Generate markdown content for saved article
+ */
+export function generateArticleNote(
+  article: Article,
+  settings: JournalMonitorSettings,
+  template: string | TemplateNode[] = DEFAULT_NOTE_TEMPLATE,
+  style?: CslStyle
+): string {
+  return renderTemplate(template, buildNoteContext(article, settings, style));
+}
+
+/**
+ * Load and compile the note template file, falling back to the built-in
+ * template when none is set or the file is missing or invalid
+ */
+export async function loadNoteTemplate(app: App, settings: JournalMonitorSettings): Promise<TemplateNode[]> {
+  const path = settings.noteTemplatePath.trim();
+  if (!path) return compileTemplate(DEFAULT_NOTE_TEMPLATE);
+
+  const file = app.vault.getAbstractFileByPath(normalizePath(path));
+  if (!(file instanceof TFile)) {
+    new Notice(`Note template not found: ${path}. Using the built-in template.`);
+    return compileTemplate(DEFAULT_NOTE_TEMPLATE);
   }
-  
-  // Notes section
-  lines.push('## Notes');
-  lines.push('');
-  lines.push('<!-- Your reading notes here -->');
-  lines.push('');
-  lines.push('');
-  
-  // BibTeX
-  if (settings.includeBibtex) {
-    lines.push('---');
-    lines.push('');
-    lines.push('## BibTeX');
-    lines.push('');
-    lines.push('```bibtex');
-    lines.push(generateBibtex(article));
-    lines.push('```');
+
+  try {
+    return compileTemplate(await app.vault.cachedRead(file));
+  } catch (error) {
+    console.error('Journal Monitor: Invalid note template:', error);
+    new Notice(`Note template error: ${error instanceof Error ? error.message : error}. Using the built-in template.`);
+    return compileTemplate(DEFAULT_NOTE_TEMPLATE);
   }
-  
-  return lines.join('\n');
 }
 
 /**
- * Generate BibTeX entry
+ * Load the configured citation style: a bundled one, or a .csl file from the vault.
+ * Falls back to APA when the file is missing or cannot be read as CSL.
  */
-export function generateBibtex(article: Article): string {
-  const firstAuthor = article.authors[0]?.split(',')[0]?.split(' ').pop()?.toLowerCase() || 'unknown';
-  const titleWord = article.title.split(/\s+/)[0].toLowerCase().replace(/[^a-z]/g, '');
-  const key = `${firstAuthor}${article.year}${titleWord}`;
-  
-  const lines: string[] = [];
-  lines.push(`@article{${key},`);
-  lines.push(`  title={${article.title}},`);
-  lines.push(`  author={${article.authors.join(' and ')}},`);
-  lines.push(`  journal={${article.journal}},`);
-  if (article.volume) lines.push(`  volume={${article.volume}},`);
-  if (article.issue) lines.push(`  number={${article.issue}},`);
-  if (article.pages) lines.push(`  pages={${article.pages.replace('-', '--')}},`);
-  lines.push(`  year={${article.year}},`);
-  lines.push(`  doi={${article.doi}}`);
-  lines.push('}');
-  
-  return lines.join('\n');
+export async function loadCitationStyle(app: App, settings: JournalMonitorSettings): Promise<CslStyle> {
+  if (settings.citationStyle !== 'custom') return getBundledStyle(settings.citationStyle);
+
+  const path = settings.cslStylePath.trim();
+  const file = path ? app.vault.getAbstractFileByPath(normalizePath(path)) : null;
+  if (!(file instanceof TFile)) {
+    new Notice(`Citation style not found: ${path || '(no file set)'}. Using APA.`);
+    return getBundledStyle(DEFAULT_CITATION_STYLE);
+  }
+
+  try {
+    return parseCslStyle(await app.vault.cachedRead(file));
+  } catch (error) {
+    console.error('Journal Monitor: Invalid citation style:', error);
+    new Notice(`Citation style error: ${error instanceof Error ? error.message : error}. Using APA.`);
+    return getBundledStyle(DEFAULT_CITATION_STYLE);
+  }
 }
 
 /**
- * Escape YAML special characters
+ * Copy an article's formatted reference in the configured style to the clipboard
  */
-function escapeYaml(str: string): string {
-  return str.replace(/"/g, '\\"').replace(/\n/g, ' ');
+export async function copyCitation(app: App, article: Article, settings: JournalMonitorSettings): Promise<void> {
+  try {
+    const style = await loadCitationStyle(app, settings);
+    await navigator.clipboard.writeText(formatReference(article, style));
+    new Notice('Citation copied');
+  } catch (error) {
+    console.error('Error copying citation:', error);
+    new Notice('Error copying citation');
+  }
 }
 
 /**
@@ -191,6 +266,15 @@ export function formatDate(dateStr: string): string {
   });
 }
 
+/**
+ * Local date and time for use in file names, e.g. 2024-03-05T14-30-00
+ */
+export function getFileTimestamp(date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+    + `T${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+}
+
 /**
  * Ensure folder exists, create if not
  */
@@ -211,28 +295,94 @@ export async function saveArticleNote(
   article: Article,
   settings: JournalMonitorSettings
 ): Promise<string> {
-  const filename = generateFilename(article);
-  const folderPath = normalizePath(settings.savedArticlesFolder);
-  const filePath = normalizePath(`${folderPath}/${filename}.md`);
+  // Already saved: keep the existing note
+  if (article.savedPath && app.vault.getAbstractFileByPath(article.savedPath) instanceof TFile) {
+    return article.savedPath;
+  }
+
+  // Reuse a note the user already has for this DOI instead of writing a duplicate
+  const existingNote = isDoi(article.doi) ? findNoteByDoi(app, article.doi) : null;
+  if (existingNote) return existingNote.path;
+
+  const basePath = getNotePath(article, settings);
   
-  // Ensure folder exists
-  await ensureFolder(app, folderPath);
+  // Ensure folder exists (the filename pattern may add subfolders)
+  const folderPath = basePath.substring(0, basePath.lastIndexOf('/'));
+  if (folderPath) await ensureFolder(app, folderPath);
   
   // Generate content
-  const content = generateArticleNote(article, settings);
-  
-  // Check if file exists
-  const existingFile = app.vault.getAbstractFileByPath(filePath);
-  if (existingFile instanceof TFile) {
-    // File exists, could append or skip
-    console.log(`Article note already exists: ${filePath}`);
-    return filePath;
+  const template = await loadNoteTemplate(app, settings);
+  const style = await loadCitationStyle(app, settings);
+  const content = generateArticleNote(article, settings, template, style);
+  
+  // A different article may already own the name; number the new note instead of skipping it
+  for (let n = 1; n <= MAX_FILENAME_SUFFIX; n++) {
+    const filePath = normalizePath(n === 1 ? `${basePath}.md` : `${basePath}-${n}.md`);
+    const existingFile = app.vault.getAbstractFileByPath(filePath);
+
+    if (!existingFile) {
+      await app.vault.create(filePath, content);
+      return filePath;
+    }
+
+    if (existingFile instanceof TFile && isNoteForArticle(app, existingFile, article)) {
+      console.log(`Article note already exists: ${filePath}`);
+      return filePath;
+    }
   }
-  
-  // Create file
-  await app.vault.create(filePath, content);
-  
-  return filePath;
+
+  throw new Error(`Too many notes named ${basePath}`);
+}
+
+/**
+ * Whether an existing note was saved for this article, judged by its frontmatter `doi` or `url`
+ */
+function isNoteForArticle(app: App, file: TFile, article: Article): boolean {
+  const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+  if (!frontmatter) return false;
+
+  const doi = getFrontmatterDoi(app, file);
+  if (isDoi(article.doi) && doi) {
+    return doi.toLowerCase() === article.doi.toLowerCase();
+  }
+  return !!article.url && frontmatter.url === article.url;
+}
+
+/**
+ * DOI in a note's frontmatter (`doi` or `DOI`), without a https://doi.org/ or doi: prefix
+ */
+export function getFrontmatterDoi(app: App, file: TFile): string | undefined {
+  const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+  const value = frontmatter?.doi ?? frontmatter?.DOI;
+  if (typeof value !== 'string') return undefined;
+
+  const doi = value.trim().replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:)/i, '');
+  return isDoi(doi) ? doi : undefined;
+}
+
+/**
+ * An existing note for a DOI anywhere in the vault, e.g. one written before Journal Monitor was set up
+ */
+export function findNoteByDoi(app: App, doi: string): TFile | null {
+  const wanted = doi.toLowerCase();
+  return app.vault.getMarkdownFiles().find(file => getFrontmatterDoi(app, file)?.toLowerCase() === wanted) || null;
+}
+
+/**
+ * Index list item: reading status, formatted reference and a link to the note if it has one
+ */
+function formatIndexEntry(article: Article, style: CslStyle): string {
+  const status = READING_STATUS_LABELS[getReadingStatus(article)].split(' ')[0];
+  const target = getNoteLinkTarget(article);
+  return `- ${status} ${formatReference(article, style)}${target ? ` ([[${target}|note]])` : ''}`;
+}
+
+/**
+ * One-line reading status summary, e.g. "📥 To read: 3 · 📖 Reading: 1 · ✅ Read: 5 · 📝 Cited: 0"
+ */
+function formatReadingCounts(articles: Article[]): string {
+  const counts = countReadingStatuses(articles);
+  return READING_STATUSES.map(status => `${READING_STATUS_LABELS[status]}: ${counts[status]}`).join(' · ');
 }
 
 /**
@@ -240,19 +390,14 @@ export async function saveArticleNote(
  */
 export function generateMasterIndex(
   articles: Article[],
-  settings: JournalMonitorSettings
+  settings: JournalMonitorSettings,
+  style: CslStyle = getBundledStyle(DEFAULT_CITATION_STYLE)
 ): string {
   const savedArticles = articles.filter(a => a.state === 'saved');
-  const unreadCount = savedArticles.filter(a => a.savedAt && !a.viewedAt).length;
-  
-  const byJournal: Record<string, number> = {};
-  const unreadByJournal: Record<string, number> = {};
   
+  const byJournal: Record<string, Article[]> = {};
   for (const article of savedArticles) {
-    byJournal[article.journal] = (byJournal[article.journal] || 0) + 1;
-    if (!article.viewedAt) {
-      unreadByJournal[article.journal] = (unreadByJournal[article.journal] || 0) + 1;
-    }
+    (byJournal[article.journal] || (byJournal[article.journal] = [])).push(article);
   }
   
   const lines: string[] = [];
@@ -271,16 +416,18 @@ export function generateMasterIndex(
   lines.push('');
   lines.push(`> Last updated: ${formatDate(new Date().toISOString())}`);
   lines.push(`> Total saved articles: ${savedArticles.length}`);
+  lines.push(`> ${formatReadingCounts(savedArticles)}`);
   lines.push('');
   
   // Stats table
   lines.push('## Quick Stats');
   lines.push('');
-  lines.push('| Journal | Saved | Unread |');
-  lines.push('|---------|-------|--------|');
+  lines.push(`| Journal | Saved | ${READING_STATUSES.map(s => READING_STATUS_LABELS[s]).join(' | ')} |`);
+  lines.push(`|---------|-------|${READING_STATUSES.map(() => '---|').join('')}`);
   
-  for (const [journal, count] of Object.entries(byJournal).sort((a, b) => b[1] - a[1])) {
-    lines.push(`| ${journal} | ${count} | ${unreadByJournal[journal] || 0} |`);
+  for (const [journal, journalArticles] of Object.entries(byJournal).sort((a, b) => b[1].length - a[1].length)) {
+    const counts = countReadingStatuses(journalArticles);
+    lines.push(`| ${journal} | ${journalArticles.length} | ${READING_STATUSES.map(s => counts[s]).join(' | ')} |`);
   }
   
   lines.push('');
@@ -300,39 +447,120 @@ export function generateMasterIndex(
     .slice(0, 10);
   
   for (const article of recentArticles) {
-    const filename = generateFilename(article);
-    const shortTitle = article.title.length > 60 
-      ? article.title.substring(0, 60) + '...' 
-      : article.title;
-    lines.push(`- [[${filename}|${shortTitle}]] - *${article.journal}* (${formatDate(article.date)})`);
+    lines.push(formatIndexEntry(article, style));
   }
   
   lines.push('');
   lines.push('---');
   lines.push('');
   
-  // Dataview queries
-  lines.push('## Unread Articles');
+  // Reading list, from the plugin's record of note statuses
+  const readingList = savedArticles
+    .filter(a => getReadingStatus(a) === 'reading' || getReadingStatus(a) === 'to-read')
+    .sort((a, b) => new Date(b.savedAt || 0).getTime() - new Date(a.savedAt || 0).getTime());
+  
+  for (const status of ['reading', 'to-read'] as ReadingStatus[]) {
+    const group = readingList.filter(a => getReadingStatus(a) === status);
+    lines.push(`## ${READING_STATUS_LABELS[status]} (${group.length})`);
+    lines.push('');
+    if (group.length > 0) {
+      for (const article of group.slice(0, 20)) {
+        lines.push(formatIndexEntry(article, style));
+      }
+      if (group.length > 20) {
+        lines.push('');
+        lines.push(`*... and ${group.length - 20} more*`);
+      }
+    } else {
+      lines.push('*None*');
+    }
+    lines.push('');
+  }
+  
+  lines.push('---');
+  lines.push('');
+  
+  // Rendered by the plugin from current data, so it stays live without regenerating the index
+  lines.push('## To Read (live)');
   lines.push('');
-  lines.push('```dataview');
-  lines.push('LIST');
-  lines.push(`FROM "${settings.savedArticlesFolder}"`);
-  lines.push('WHERE contains(tags, "unread")');
-  lines.push('SORT saved DESC');
+  lines.push('```journal-monitor');
+  lines.push('state: to-read');
+  lines.push('sort: date-desc');
   lines.push('```');
   
   return lines.join('\n');
 }
 
+// Issues shown with their full table of contents in a journal index
+const RECENT_ISSUE_COUNT = 3;
+
+/**
+ * Heading for an article's issue: volume and issue when known, else its publication month
+ * (preprints and feeds without issue numbers)
+ */
+function getIssueLabel(article: Article): string {
+  if (article.volume) {
+    return article.issue ? `Vol. ${article.volume}, Issue ${article.issue}` : `Vol. ${article.volume}`;
+  }
+  const date = new Date(article.date);
+  return isNaN(date.getTime())
+    ? 'Undated'
+    : date.toLocaleDateString('en-US', { year: 'numeric', month: 'long' });
+}
+
+/**
+ * Group articles by issue, newest issue first; within an issue, in page order
+ */
+function groupByIssue(articles: Article[]): { label: string; articles: Article[] }[] {
+  const groups = new Map<string, Article[]>();
+  for (const article of articles) {
+    const label = getIssueLabel(article);
+    const group = groups.get(label);
+    if (group) group.push(article);
+    else groups.set(label, [article]);
+  }
+
+  const latest = (group: Article[]) => Math.max(...group.map(a => new Date(a.date).getTime() || 0));
+  const firstPage = (article: Article) => parseInt(article.pages || '', 10);
+
+  return Array.from(groups.entries())
+    .map(([label, group]) => ({
+      label,
+      articles: group.sort((a, b) => (firstPage(a) || Infinity) - (firstPage(b) || Infinity)
+        || a.title.localeCompare(b.title)),
+    }))
+    .sort((a, b) => latest(b.articles) - latest(a.articles));
+}
+
+/**
+ * Table-of-contents line: saved articles link to their note, others (and saves without a note) to the article
+ */
+function formatContentsEntry(article: Article): string {
+  const title = article.title.replace(/[[\]]/g, '');
+  const authors = article.authors.length > 2
+    ? `${parseAuthorName(article.authors[0]).family} et al.`
+    : article.authors.map(author => parseAuthorName(author).family).join(' & ');
+  const pages = article.pages ? `, pp. ${article.pages}` : '';
+
+  const marker = { unseen: '•', viewed: '•', saved: '★', skipped: '✗' }[article.state];
+  const target = article.state === 'saved' ? getNoteLinkTarget(article) : null;
+  const link = target ? `[[${target}|${title}]]` : `[${title}](${article.url})`;
+  return `- ${marker} ${link}${authors ? ` — ${authors}` : ''}${pages}`;
+}
+
 /**
- * Generate journal-specific index note content
+ * Generate journal-specific index note content: statistics, the tables of contents of the
+ * most recent issues in the cache, and every saved article grouped by year and issue
  */
 export function generateJournalIndex(
   journal: { name: string; issn: string; publisher: string },
-  articles: Article[]
+  articles: Article[],
+  style: CslStyle = getBundledStyle(DEFAULT_CITATION_STYLE),
+  statistics?: { fetched: number; saved: number; skipped: number }
 ): string {
-  const journalArticles = articles
-    .filter(a => a.journalIssn === journal.issn && a.state === 'saved')
+  const cachedArticles = articles.filter(a => a.journalIssn === journal.issn);
+  const journalArticles = cachedArticles
+    .filter(a => a.state === 'saved')
     .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
   
   const lines: string[] = [];
@@ -342,6 +570,7 @@ export function generateJournalIndex(
   lines.push(`title: "${journal.name}"`);
   lines.push(`issn: "${journal.issn}"`);
   lines.push(`publisher: "${journal.publisher}"`);
+  lines.push(`saved_articles: ${journalArticles.length}`);
   lines.push(`updated: ${new Date().toISOString()}`);
   lines.push('---');
   lines.push('');
@@ -351,26 +580,63 @@ export function generateJournalIndex(
   lines.push('');
   lines.push(`> ISSN: ${journal.issn} | Publisher: ${journal.publisher}`);
   lines.push('');
+  
+  // Statistics
+  if (statistics) {
+    const triaged = statistics.saved + statistics.skipped;
+    lines.push('## Statistics');
+    lines.push('');
+    lines.push('| Fetched | Saved | Skipped | Save rate |');
+    lines.push('|---------|-------|---------|-----------|');
+    lines.push(`| ${statistics.fetched} | ${statistics.saved} | ${statistics.skipped} | ${triaged > 0 ? `${Math.round(statistics.saved / triaged * 100)}%` : '-'} |`);
+    lines.push('');
+  }
+  
   lines.push('---');
   lines.push('');
   
-  // Saved articles
+  // Tables of contents of recent issues, from the cache (★ saved, ✗ skipped)
+  const recentIssues = groupByIssue(cachedArticles).slice(0, RECENT_ISSUE_COUNT);
+  lines.push('## Recent Issues');
+  lines.push('');
+  
+  if (recentIssues.length > 0) {
+    for (const issue of recentIssues) {
+      lines.push(`### ${issue.label}`);
+      lines.push('');
+      for (const article of issue.articles) {
+        lines.push(formatContentsEntry(article));
+      }
+      lines.push('');
+    }
+  } else {
+    lines.push('*No articles fetched yet*');
+    lines.push('');
+  }
+  
+  lines.push('---');
+  lines.push('');
+  
+  // Saved articles, by year and issue
   lines.push(`## Saved Articles (${journalArticles.length} total)`);
   lines.push('');
   
   if (journalArticles.length > 0) {
-    for (const article of journalArticles.slice(0, 20)) {
-      const filename = generateFilename(article);
-      const shortTitle = article.title.length > 60 
-        ? article.title.substring(0, 60) + '...' 
-        : article.title;
-      const firstAuthor = article.authors[0]?.split(',')[0] || 'Unknown';
-      lines.push(`- [[${filename}|${shortTitle}]] - ${firstAuthor} (${article.date})`);
-    }
+    lines.push(`> ${formatReadingCounts(journalArticles)}`);
     
-    if (journalArticles.length > 20) {
+    const years = Array.from(new Set(journalArticles.map(a => a.year))).sort((a, b) => (b || 0) - (a || 0));
+    for (const year of years) {
       lines.push('');
-      lines.push(`*... and ${journalArticles.length - 20} more*`);
+      lines.push(`### ${year || 'Undated'}`);
+      
+      for (const issue of groupByIssue(journalArticles.filter(a => a.year === year))) {
+        lines.push('');
+        lines.push(`#### ${issue.label}`);
+        lines.push('');
+        for (const article of issue.articles) {
+          lines.push(formatIndexEntry(article, style));
+        }
+      }
     }
   } else {
     lines.push('*No saved articles yet*');
@@ -379,6 +645,56 @@ export function generateJournalIndex(
   return lines.join('\n');
 }
 
+/**
+ * Vault path of a journal's index note
+ */
+export function getJournalIndexPath(settings: JournalMonitorSettings, journal: { name: string }): string {
+  const journalSlug = journal.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return normalizePath(`${settings.journalIndicesFolder}/${journalSlug}.md`);
+}
+
+/**
+ * Fill in filter fields missing from older settings. Keyword lists from before the query
+ * language become an OR query.
+ */
+export function upgradeFilterConfig(filter: Partial<FilterConfig> & { keywords?: string[] }): FilterConfig {
+  const { keywords, ...rest } = filter;
+  const upgraded: FilterConfig = { ...DEFAULT_SETTINGS.currentFilter, ...rest };
+  upgraded.journals = [...upgraded.journals];
+  if (filter.query === undefined && keywords && keywords.length > 0) {
+    upgraded.query = keywordsToQuery(keywords);
+  }
+  return upgraded;
+}
+
+/**
+ * The feed shown in the browser, or null for the default feed
+ */
+export function getActiveFeed(settings: JournalMonitorSettings): Feed | null {
+  return settings.feeds.find(f => f.id === settings.activeFeedId) || null;
+}
+
+/**
+ * Filter of the feed shown in the browser
+ */
+export function getActiveFilter(settings: JournalMonitorSettings): FilterConfig {
+  return getActiveFeed(settings)?.filter || settings.currentFilter;
+}
+
+/**
+ * Remembered browse position of a feed ('' for the default feed), created on first use
+ */
+export function getBrowsePosition(data: JournalMonitorData, feedId: string): BrowsePosition {
+  if (!feedId) return data.browsePosition;
+  if (!data.feedPositions[feedId]) {
+    data.feedPositions[feedId] = { currentDoi: null, filterHash: '', scrollIndex: 0 };
+  }
+  return data.feedPositions[feedId];
+}
+
 /**
  * Calculate hash of filter config for cache invalidation
  */
@@ -387,8 +703,10 @@ export function hashFilterConfig(filter: FilterConfig): string {
     dateRange: filter.dateRange,
     customDateFrom: filter.customDateFrom,
     customDateTo: filter.customDateTo,
-    journals: filter.journals.sort(),
-    keywords: filter.keywords.sort(),
+    journals: [...filter.journals].sort(),
+    query: filter.query.trim(),
+    searchInAbstracts: filter.searchInAbstracts,
+    stemming: filter.stemming,
     showState: filter.showState,
     sortBy: filter.sortBy,
   });
@@ -405,17 +723,21 @@ export function hashFilterConfig(filter: FilterConfig): string {
 }
 
 /**
- * Filter articles based on current filter config
+ * Filter articles based on current filter config. Relevance sorting learns from all the
+ * given articles unless a prebuilt model is passed.
  */
 export function filterArticles(
   articles: Article[],
   filter: FilterConfig,
-  allJournals: { issn: string }[]
+  allJournals: { issn: string }[],
+  model?: RelevanceModel
 ): Article[] {
   let filtered = Object.values(articles);
   
-  // Filter by state
-  if (filter.showState !== 'all') {
+  // Filter by state, or by reading status of saved articles
+  if (READING_STATUSES.includes(filter.showState as ReadingStatus)) {
+    filtered = filtered.filter(a => a.state === 'saved' && getReadingStatus(a) === filter.showState);
+  } else if (filter.showState !== 'all') {
     filtered = filtered.filter(a => a.state === filter.showState);
   }
   
@@ -426,16 +748,20 @@ export function filterArticles(
   
   filtered = filtered.filter(a => enabledIssns.includes(a.journalIssn));
   
-  // Filter by keywords
-  if (filter.keywords.length > 0) {
-    const lowerKeywords = filter.keywords.map(k => k.toLowerCase());
-    filtered = filtered.filter(a => {
-      const searchText = filter.searchInAbstracts
-        ? `${a.title} ${a.abstract || ''} ${(a.keywords || []).join(' ')}`.toLowerCase()
-        : a.title.toLowerCase();
-      
-      return lowerKeywords.some(kw => searchText.includes(kw));
-    });
+  // Filter by search query
+  let query: QueryNode | null = null;
+  try {
+    query = parseQuery(filter.query);
+  } catch (error) {
+    // The filter modal refuses invalid queries, so this is a hand-edited or synced setting
+    console.error('Journal Monitor: ignoring invalid filter query:', error);
+  }
+  if (query) {
+    const options: QueryOptions = {
+      defaultFields: filter.searchInAbstracts ? ['title', 'abstract', 'keyword'] : ['title'],
+      stemming: filter.stemming,
+    };
+    filtered = filtered.filter(a => matchesQuery(a, query!, options));
   }
   
   // Sort
@@ -449,6 +775,9 @@ export function filterArticles(
     case 'journal':
       filtered.sort((a, b) => a.journal.localeCompare(b.journal));
       break;
+    case 'relevance':
+      sortByRelevance(filtered, model || buildRelevanceModel(Object.values(articles)));
+      break;
   }
   
   return filtered;
@@ -0,0 +1,130 @@
+import { MarkdownRenderChild } from 'obsidian';
+import type JournalMonitorPlugin from '../main';
+import { Article, DATA_CHANGED_EVENT } from '../types';
+import { CodeBlockError, parseBlockQuery, runBlockQuery } from '../codeblock';
+import { READING_STATUS_LABELS, getReadingStatus } from '../reading';
+import { formatDate, getNoteLinkTarget } from '../utils';
+
+const STATE_LABELS: Record<Article['state'], string> = {
+  unseen: '• Unseen',
+  viewed: '👁 Viewed',
+  saved: '★ Saved',
+  skipped: '✗ Skipped',
+};
+
+/**
+ * Live list or table of articles for a `journal-monitor` code block, re-rendered whenever
+ * the article data changes
+ */
+export class ArticleBlock extends MarkdownRenderChild {
+  private plugin: JournalMonitorPlugin;
+  private source: string;
+  private sourcePath: string;
+
+  constructor(containerEl: HTMLElement, plugin: JournalMonitorPlugin, source: string, sourcePath: string) {
+    super(containerEl);
+    this.plugin = plugin;
+    this.source = source;
+    this.sourcePath = sourcePath;
+  }
+
+  onload() {
+    this.render();
+    this.registerEvent(this.plugin.events.on(DATA_CHANGED_EVENT, () => this.render()));
+  }
+
+  private render() {
+    const { containerEl } = this;
+    containerEl.empty();
+    containerEl.addClass('jm-block');
+
+    let result: { articles: Article[]; total: number };
+    let view: 'list' | 'table';
+    try {
+      const query = parseBlockQuery(this.source, this.plugin.settings.journals);
+      result = runBlockQuery(query, Object.values(this.plugin.data.articles), this.plugin.settings);
+      view = query.view;
+    } catch (error) {
+      if (!(error instanceof CodeBlockError)) throw error;
+      containerEl.createEl('p', { text: `Journal Monitor: ${error.message}`, cls: 'jm-block-error' });
+      return;
+    }
+
+    if (result.articles.length === 0) {
+      containerEl.createEl('p', { text: 'No matching articles', cls: 'jm-block-empty' });
+      return;
+    }
+
+    if (view === 'table') {
+      this.renderTable(result.articles);
+    } else {
+      this.renderList(result.articles);
+    }
+
+    if (result.total > result.articles.length) {
+      containerEl.createEl('p', {
+        text: `Showing ${result.articles.length} of ${result.total}`,
+        cls: 'jm-block-more'
+      });
+    }
+  }
+
+  private renderList(articles: Article[]) {
+    const list = this.containerEl.createEl('ul', { cls: 'jm-block-list' });
+    for (const article of articles) {
+      const item = list.createEl('li');
+      this.renderTitle(item, article);
+      item.createSpan({
+        text: ` — ${article.journal}, ${formatDate(article.date)}`,
+        cls: 'jm-block-meta'
+      });
+    }
+  }
+
+  private renderTable(articles: Article[]) {
+    const table = this.containerEl.createEl('table', { cls: 'jm-block-table' });
+    const headerRow = table.createEl('thead').createEl('tr');
+    for (const heading of ['Title', 'Journal', 'Published', 'State']) {
+      headerRow.createEl('th', { text: heading });
+    }
+
+    const body = table.createEl('tbody');
+    for (const article of articles) {
+      const row = body.createEl('tr');
+      this.renderTitle(row.createEl('td'), article);
+      row.createEl('td', { text: article.journal });
+      row.createEl('td', { text: formatDate(article.date) });
+      row.createEl('td', {
+        text: article.state === 'saved'
+          ? READING_STATUS_LABELS[getReadingStatus(article)]
+          : STATE_LABELS[article.state]
+      });
+    }
+  }
+
+  /**
+   * Saved articles link to their note, others (and saves without a note) to the article online
+   */
+  private renderTitle(parent: HTMLElement, article: Article) {
+    const target = article.state === 'saved' ? getNoteLinkTarget(article) : null;
+    if (target) {
+      const link = parent.createEl('a', {
+        text: article.title,
+        cls: 'internal-link',
+        href: target,
+        attr: { 'data-href': target }
+      });
+      link.addEventListener('click', (e) => {
+        e.preventDefault();
+        this.plugin.app.workspace.openLinkText(target, this.sourcePath, e.ctrlKey || e.metaKey);
+      });
+    } else {
+      parent.createEl('a', {
+        text: article.title,
+        cls: 'external-link',
+        href: article.url,
+        attr: { target: '_blank', rel: 'noopener' }
+      });
+    }
+  }
+}
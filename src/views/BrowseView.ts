@@ -1,14 +1,33 @@
 import { App, Modal, Notice, setIcon } from 'obsidian';
-import { Article, FilterConfig, JournalMonitorSettings, JournalMonitorData } from '../types';
-import { filterArticles, formatDate, getRelativeTime, saveArticleNote } from '../utils';
+import { Article, BrowsePosition, FilterConfig, JournalMonitorSettings, JournalMonitorData } from '../types';
+import {
+  copyCitation,
+  filterArticles,
+  formatDate,
+  getActiveFilter,
+  getBrowsePosition,
+  getRelativeTime,
+  isDoi,
+  saveArticleNote
+} from '../utils';
+import { setArticleState } from '../sync';
+import { assignCitekey } from '../citation';
+import { READING_STATUS_LABELS, getReadingStatus } from '../reading';
+import { RelevanceModel, buildRelevanceModel, explainRelevance, scoreArticle } from '../relevance';
 
 export class BrowseView extends Modal {
   private settings: JournalMonitorSettings;
   private data: JournalMonitorData;
   private articles: Article[];
+  // Set when sorting by relevance; learned once per session so the queue order stays put
+  private relevanceModel: RelevanceModel | null = null;
   private currentIndex: number;
-  private onDataChange: () => void;
+  private onDataChange: (article?: Article) => void;
   private onOpenFilter: () => void;
+  private onSwitchFeed: (feedId: string) => void;
+  // Filter and remembered position of the active feed
+  private filter: FilterConfig;
+  private position: BrowsePosition;
   
   private cardEl: HTMLElement | null = null;
   
@@ -16,24 +35,34 @@ export class BrowseView extends Modal {
     app: App,
     settings: JournalMonitorSettings,
     data: JournalMonitorData,
-    onDataChange: () => void,
-    onOpenFilter: () => void
+    onDataChange: (article?: Article) => void,
+    onOpenFilter: () => void,
+    onSwitchFeed: (feedId: string) => void
   ) {
     super(app);
     this.settings = settings;
     this.data = data;
     this.onDataChange = onDataChange;
     this.onOpenFilter = onOpenFilter;
+    this.onSwitchFeed = onSwitchFeed;
+    this.filter = getActiveFilter(settings);
+    this.position = getBrowsePosition(data, settings.activeFeedId);
     
     // Get filtered articles
+    const allArticles = Object.values(data.articles);
+    if (this.filter.sortBy === 'relevance') {
+      this.relevanceModel = buildRelevanceModel(allArticles);
+    }
     this.articles = filterArticles(
-      Object.values(data.articles),
-      settings.currentFilter,
-      settings.journals.filter(j => j.enabled)
+      allArticles,
+      this.filter,
+      settings.journals.filter(j => j.enabled),
+      this.relevanceModel || undefined
     );
     
-    // Restore position or start at 0
-    this.currentIndex = data.browsePosition.scrollIndex;
+    // Restore position: the last article shown if it is still in the queue, else the same index
+    const lastIndex = this.articles.findIndex(a => a.doi === this.position.currentDoi);
+    this.currentIndex = lastIndex !== -1 ? lastIndex : this.position.scrollIndex;
     if (this.currentIndex >= this.articles.length) {
       this.currentIndex = 0;
     }
@@ -53,7 +82,20 @@ export class BrowseView extends Modal {
     setIcon(backBtn, 'arrow-left');
     backBtn.addEventListener('click', () => this.close());
     
-    header.createEl('span', { text: 'Journal Monitor', cls: 'jm-header-title' });
+    if (this.settings.feeds.length > 0) {
+      const feedSelect = header.createEl('select', { cls: 'dropdown jm-feed-select' });
+      feedSelect.createEl('option', { text: 'Default feed', value: '' });
+      for (const feed of this.settings.feeds) {
+        feedSelect.createEl('option', { text: feed.name, value: feed.id });
+      }
+      feedSelect.value = this.settings.activeFeedId;
+      feedSelect.addEventListener('change', () => {
+        this.close();
+        this.onSwitchFeed(feedSelect.value);
+      });
+    } else {
+      header.createEl('span', { text: 'Journal Monitor', cls: 'jm-header-title' });
+    }
     
     const filterBtn = header.createEl('button', { cls: 'jm-header-btn' });
     setIcon(filterBtn, 'filter');
@@ -113,6 +155,7 @@ export class BrowseView extends Modal {
     this.scope.register([], 's', () => { this.saveArticle(); return false; });
     this.scope.register([], 'x', () => { this.skipArticle(); return false; });
     this.scope.register([], 'Enter', () => { this.openArticle(); return false; });
+    this.scope.register([], 'c', () => { this.copyCitation(); return false; });
     this.scope.register([], 'f', () => { this.close(); this.onOpenFilter(); return false; });
     
     // Touch/swipe handling
@@ -158,6 +201,14 @@ export class BrowseView extends Modal {
       : article.authors.join(', ');
     card.createEl('p', { text: authorsText, cls: 'jm-card-authors' });
     
+    // Why this article ranks where it does
+    if (this.relevanceModel) {
+      const reason = explainRelevance(scoreArticle(article, this.relevanceModel));
+      if (reason) {
+        card.createEl('p', { text: `✨ ${reason}`, cls: 'jm-card-reason' });
+      }
+    }
+    
     card.createEl('hr', { cls: 'jm-card-divider' });
     
     // Abstract
@@ -195,7 +246,7 @@ export class BrowseView extends Modal {
     const meta = card.createDiv({ cls: 'jm-card-meta' });
     
     const doiLink = meta.createEl('a', { 
-      text: `DOI: ${article.doi}`, 
+      text: isDoi(article.doi) ? `DOI: ${article.doi}` : article.url, 
       cls: 'jm-card-doi',
       href: article.url
     });
@@ -212,6 +263,11 @@ export class BrowseView extends Modal {
       meta.createEl('p', { text: citation.join(', '), cls: 'jm-card-citation' });
     }
     
+    const copyBtn = meta.createEl('button', { cls: 'jm-card-copy-btn' });
+    setIcon(copyBtn, 'quote');
+    copyBtn.createEl('span', { text: 'Copy citation' });
+    copyBtn.addEventListener('click', () => this.copyCitation());
+    
     // Keywords
     if (article.keywords && article.keywords.length > 0) {
       const keywordsEl = meta.createDiv({ cls: 'jm-card-keywords' });
@@ -230,7 +286,10 @@ export class BrowseView extends Modal {
         saved: '★ Saved',
         skipped: '✗ Skipped'
       };
-      stateEl.createEl('span', { text: stateText[article.state] || '' });
+      const text = article.state === 'saved'
+        ? `${stateText.saved} · ${READING_STATUS_LABELS[getReadingStatus(article)]}`
+        : stateText[article.state] || '';
+      stateEl.createEl('span', { text });
     }
   }
   
@@ -286,17 +345,16 @@ export class BrowseView extends Modal {
     
     const article = this.articles[this.currentIndex];
     if (article && article.state === 'unseen') {
-      article.state = 'viewed';
-      article.viewedAt = new Date().toISOString();
+      setArticleState(article, 'viewed');
       this.data.articles[article.doi] = article;
-      this.onDataChange();
+      this.onDataChange(article);
     }
   }
   
   private savePosition() {
-    this.data.browsePosition.scrollIndex = this.currentIndex;
+    this.position.scrollIndex = this.currentIndex;
     if (this.articles.length > 0) {
-      this.data.browsePosition.currentDoi = this.articles[this.currentIndex]?.doi || null;
+      this.position.currentDoi = this.articles[this.currentIndex]?.doi || null;
     }
     this.onDataChange();
   }
@@ -332,26 +390,19 @@ export class BrowseView extends Modal {
     if (!article) return;
     
     try {
+      assignCitekey(article, this.data.articles, this.settings);
       const path = await saveArticleNote(this.app, article, this.settings);
       
-      article.state = 'saved';
-      article.savedAt = new Date().toISOString();
+      setArticleState(article, 'saved');
       article.savedPath = path;
       this.data.articles[article.doi] = article;
-      this.data.statistics.totalSaved++;
-      
-      // Update journal stats
-      if (!this.data.statistics.byJournal[article.journalIssn]) {
-        this.data.statistics.byJournal[article.journalIssn] = { fetched: 0, saved: 0, skipped: 0 };
-      }
-      this.data.statistics.byJournal[article.journalIssn].saved++;
       
-      this.onDataChange();
+      this.onDataChange(article);
       
       new Notice(`Saved: ${article.title.substring(0, 50)}...`);
       
       // Move to next if in unseen-only mode
-      if (this.settings.currentFilter.showState === 'unseen') {
+      if (this.filter.showState === 'unseen') {
         this.articles.splice(this.currentIndex, 1);
         if (this.currentIndex >= this.articles.length) {
           this.currentIndex = Math.max(0, this.articles.length - 1);
@@ -374,20 +425,13 @@ export class BrowseView extends Modal {
     const article = this.articles[this.currentIndex];
     if (!article) return;
     
-    article.state = 'skipped';
+    setArticleState(article, 'skipped');
     this.data.articles[article.doi] = article;
-    this.data.statistics.totalSkipped++;
     
-    // Update journal stats
-    if (!this.data.statistics.byJournal[article.journalIssn]) {
-      this.data.statistics.byJournal[article.journalIssn] = { fetched: 0, saved: 0, skipped: 0 };
-    }
-    this.data.statistics.byJournal[article.journalIssn].skipped++;
-    
-    this.onDataChange();
+    this.onDataChange(article);
     
     // Remove from list if in unseen-only mode
-    if (this.settings.currentFilter.showState === 'unseen') {
+    if (this.filter.showState === 'unseen') {
       this.articles.splice(this.currentIndex, 1);
       if (this.currentIndex >= this.articles.length) {
         this.currentIndex = Math.max(0, this.articles.length - 1);
@@ -413,6 +457,15 @@ export class BrowseView extends Modal {
     window.open(article.url, '_blank');
   }
   
+  copyCitation() {
+    if (this.articles.length === 0) return;
+    
+    const article = this.articles[this.currentIndex];
+    if (!article) return;
+    
+    copyCitation(this.app, article, this.settings);
+  }
+  
   onClose() {
     this.savePosition();
     this.contentEl.empty();
@@ -1,12 +1,14 @@
 import { App, Modal, Notice, setIcon, Setting } from 'obsidian';
-import { Article, JournalMonitorSettings, JournalMonitorData } from '../types';
-import { searchOpenAlex, getDateRange } from '../api';
-import { saveArticleNote, formatDate } from '../utils';
+import { Article, JournalMonitorSettings, JournalMonitorData, PROVIDER_NAMES } from '../types';
+import { createProvider, toApiError } from '../api';
+import { saveArticleNote, formatDate, copyCitation } from '../utils';
+import { setArticleState } from '../sync';
+import { assignCitekey } from '../citation';
 
 export class DiscoveryView extends Modal {
   private settings: JournalMonitorSettings;
   private data: JournalMonitorData;
-  private onDataChange: () => void;
+  private onDataChange: (article: Article) => void;
   
   private searchQuery: string = '';
   private dateFrom: string;
@@ -22,7 +24,7 @@ export class DiscoveryView extends Modal {
     app: App,
     settings: JournalMonitorSettings,
     data: JournalMonitorData,
-    onDataChange: () => void
+    onDataChange: (article: Article) => void
   ) {
     super(app);
     this.settings = settings;
@@ -154,7 +156,7 @@ export class DiscoveryView extends Modal {
     
     // Search button
     const searchBtn = form.createEl('button', { 
-      text: '🔍 Search (via OpenAlex)', 
+      text: `🔍 Search (via ${PROVIDER_NAMES[this.settings.apiProvider]})`, 
       cls: 'jm-search-btn' 
     });
     searchBtn.addEventListener('click', () => this.performSearch());
@@ -187,29 +189,33 @@ export class DiscoveryView extends Modal {
     }
     
     try {
-      const issns = this.useAllJournals
-        ? this.settings.journals.filter(j => j.enabled).map(j => j.issn)
-        : this.selectedJournals;
+      const journals = this.settings.journals.filter(j =>
+        j.enabled && (this.useAllJournals || this.selectedJournals.includes(j.issn))
+      );
       
-      this.results = await searchOpenAlex(
+      this.results = await createProvider(this.settings.apiProvider, this.settings).search(
         this.searchQuery,
-        issns,
-        this.dateFrom,
-        this.dateTo,
-        50,
-        this.settings.openAlexEmail
+        {
+          journals,
+          fromDate: this.dateFrom,
+          toDate: this.dateTo,
+          limit: 50,
+        }
       );
       
       this.renderResults();
       
     } catch (error) {
       console.error('Search error:', error);
-      new Notice('Search failed. Please try again.');
+      const message = toApiError(error).kind === 'rate-limited'
+        ? 'Search is rate-limited. Please wait a minute and try again.'
+        : 'Search failed. Please try again.';
+      new Notice(message);
       
       if (this.resultsContainer) {
         this.resultsContainer.empty();
         this.resultsContainer.createEl('p', { 
-          text: 'Search failed. Please try again.',
+          text: message,
           cls: 'jm-results-error'
         });
       }
@@ -286,20 +292,26 @@ export class DiscoveryView extends Modal {
       openBtn.addEventListener('click', () => {
         window.open(article.url, '_blank');
       });
+      
+      this.addCiteButton(actions, article);
     }
   }
   
+  private addCiteButton(actions: HTMLElement, article: Article) {
+    const citeBtn = actions.createEl('button', { text: 'Copy citation', cls: 'jm-result-btn' });
+    citeBtn.addEventListener('click', () => copyCitation(this.app, article, this.settings));
+  }
+  
   private async saveResult(article: Article, itemEl: HTMLElement) {
     try {
+      assignCitekey(article, this.data.articles, this.settings);
       const path = await saveArticleNote(this.app, article, this.settings);
       
-      article.state = 'saved';
-      article.savedAt = new Date().toISOString();
+      setArticleState(article, 'saved');
       article.savedPath = path;
       this.data.articles[article.doi] = article;
-      this.data.statistics.totalSaved++;
       
-      this.onDataChange();
+      this.onDataChange(article);
       
       // Update UI
       itemEl.addClass('jm-result-saved');
@@ -312,6 +324,8 @@ export class DiscoveryView extends Modal {
         openBtn.addEventListener('click', () => {
           window.open(article.url, '_blank');
         });
+        
+        this.addCiteButton(actions as HTMLElement, article);
       }
       
       new Notice(`Saved: ${article.title.substring(0, 50)}...`);
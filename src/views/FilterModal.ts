@@ -1,23 +1,32 @@
 import { App, Modal, setIcon } from 'obsidian';
 import { FilterConfig, JournalMonitorSettings } from '../types';
-import { hashFilterConfig } from '../utils';
+import { getActiveFeed, getActiveFilter, hashFilterConfig } from '../utils';
+import { validateQuery } from '../query';
+import { READING_STATUSES, READING_STATUS_LABELS } from '../reading';
 
 export class FilterModal extends Modal {
   private settings: JournalMonitorSettings;
   private filter: FilterConfig;
   private onApply: (filter: FilterConfig) => void;
+  private onSaveAsFeed: (name: string, filter: FilterConfig) => void;
   private articleCount: number;
+  // Parse error of the query being edited; applying is blocked while set
+  private queryError: string | null = null;
+  private applyBtn: HTMLButtonElement | null = null;
   
   constructor(
     app: App,
     settings: JournalMonitorSettings,
     articleCount: number,
-    onApply: (filter: FilterConfig) => void
+    onApply: (filter: FilterConfig) => void,
+    onSaveAsFeed: (name: string, filter: FilterConfig) => void
   ) {
     super(app);
     this.settings = settings;
-    this.filter = { ...settings.currentFilter };
+    const filter = getActiveFilter(settings);
+    this.filter = { ...filter, journals: [...filter.journals] };
     this.onApply = onApply;
+    this.onSaveAsFeed = onSaveAsFeed;
     this.articleCount = articleCount;
   }
   
@@ -29,7 +38,8 @@ export class FilterModal extends Modal {
     
     // Header
     const header = contentEl.createDiv({ cls: 'jm-filter-header' });
-    header.createEl('span', { text: 'Filters', cls: 'jm-filter-title' });
+    const feed = getActiveFeed(this.settings);
+    header.createEl('span', { text: feed ? `Filters · ${feed.name}` : 'Filters', cls: 'jm-filter-title' });
     
     const closeBtn = header.createEl('button', { cls: 'jm-header-btn' });
     setIcon(closeBtn, 'x');
@@ -123,22 +133,37 @@ export class FilterModal extends Modal {
       });
     });
     
-    // Keywords section
-    const keywordSection = contentEl.createDiv({ cls: 'jm-filter-section' });
-    keywordSection.createEl('h4', { text: '🔍 Keywords (match any)' });
+    // Search query section
+    const querySection = contentEl.createDiv({ cls: 'jm-filter-section' });
+    querySection.createEl('h4', { text: '🔍 Search' });
     
-    const keywordInput = keywordSection.createEl('input', {
+    const queryInput = querySection.createEl('input', {
       type: 'text',
-      placeholder: 'biomass, lidar, forest',
+      placeholder: '(lidar OR SAR) AND biomass NOT review',
       cls: 'jm-filter-input'
     });
-    keywordInput.value = this.filter.keywords.join(', ');
-    keywordInput.addEventListener('input', (e) => {
-      const value = (e.target as HTMLInputElement).value;
-      this.filter.keywords = value.split(',').map(k => k.trim()).filter(k => k);
+    queryInput.value = this.filter.query;
+    
+    const queryError = querySection.createEl('p', { cls: 'jm-filter-error jm-hidden' });
+    querySection.createEl('p', {
+      text: 'Whole words, all required. Use OR, NOT (or -word), "exact phrase", (groups), word* for prefixes, and title:, abstract:, author:, journal: or keyword: to search one field.',
+      cls: 'jm-filter-hint'
+    });
+    
+    const showQueryError = () => {
+      this.queryError = validateQuery(this.filter.query);
+      queryError.setText(this.queryError || '');
+      queryError.toggleClass('jm-hidden', !this.queryError);
+      queryInput.toggleClass('jm-filter-input-invalid', !!this.queryError);
+      if (this.applyBtn) this.applyBtn.disabled = !!this.queryError;
+    };
+    showQueryError();
+    queryInput.addEventListener('input', (e) => {
+      this.filter.query = (e.target as HTMLInputElement).value;
+      showQueryError();
     });
     
-    const searchInLabel = keywordSection.createEl('label', { cls: 'jm-checkbox-label' });
+    const searchInLabel = querySection.createEl('label', { cls: 'jm-checkbox-label' });
     const searchInCheckbox = searchInLabel.createEl('input', { type: 'checkbox' });
     searchInCheckbox.checked = this.filter.searchInAbstracts;
     searchInCheckbox.addEventListener('change', (e) => {
@@ -146,6 +171,14 @@ export class FilterModal extends Modal {
     });
     searchInLabel.appendText(' Search in titles + abstracts');
     
+    const stemmingLabel = querySection.createEl('label', { cls: 'jm-checkbox-label' });
+    const stemmingCheckbox = stemmingLabel.createEl('input', { type: 'checkbox' });
+    stemmingCheckbox.checked = this.filter.stemming;
+    stemmingCheckbox.addEventListener('change', (e) => {
+      this.filter.stemming = (e.target as HTMLInputElement).checked;
+    });
+    stemmingLabel.appendText(' Match word variants (forests, forested)');
+    
     // Article status section
     const statusSection = contentEl.createDiv({ cls: 'jm-filter-section' });
     statusSection.createEl('h4', { text: '📊 Article Status' });
@@ -157,6 +190,7 @@ export class FilterModal extends Modal {
       { value: 'all', label: 'Show all (incl. viewed)' },
       { value: 'saved', label: 'Show saved only' },
       { value: 'skipped', label: 'Show skipped only' },
+      ...READING_STATUSES.map(status => ({ value: status, label: `Saved: ${READING_STATUS_LABELS[status]}` })),
     ];
     
     for (const status of statuses) {
@@ -181,6 +215,7 @@ export class FilterModal extends Modal {
       { value: 'date-desc', label: 'Publication date (newest)' },
       { value: 'date-asc', label: 'Publication date (oldest)' },
       { value: 'journal', label: 'Journal name' },
+      { value: 'relevance', label: 'For You (learned from your saves and skips)' },
     ];
     
     for (const sort of sorts) {
@@ -202,10 +237,32 @@ export class FilterModal extends Modal {
       text: `Apply Filters (${this.articleCount})`,
       cls: 'jm-btn-primary'
     });
+    this.applyBtn = applyBtn;
+    applyBtn.disabled = !!this.queryError;
     applyBtn.addEventListener('click', () => {
+      if (this.queryError) return;
       this.onApply(this.filter);
       this.close();
     });
+    
+    // Save as a named feed
+    const feedRow = actions.createDiv({ cls: 'jm-feed-save' });
+    const feedNameInput = feedRow.createEl('input', {
+      type: 'text',
+      placeholder: 'New feed name, e.g. Carbon flux',
+      cls: 'jm-filter-input'
+    });
+    const saveFeedBtn = feedRow.createEl('button', { text: 'Save as feed', cls: 'jm-btn-small' });
+    saveFeedBtn.addEventListener('click', () => {
+      const name = feedNameInput.value.trim();
+      if (!name) {
+        feedNameInput.focus();
+        return;
+      }
+      if (this.queryError) return;
+      this.onSaveAsFeed(name, this.filter);
+      this.close();
+    });
   }
   
   onClose() {
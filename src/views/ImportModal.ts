@@ -0,0 +1,74 @@
+import { App, Modal, setIcon } from 'obsidian';
+import { BundleFile, ImportMode, StateBundle, describeStateBundle } from '../backup';
+import { formatDate } from '../utils';
+
+export class ImportModal extends Modal {
+  private bundles: BundleFile[];
+  private onImport: (bundle: StateBundle, mode: ImportMode) => Promise<boolean>;
+
+  constructor(
+    app: App,
+    bundles: BundleFile[],
+    onImport: (bundle: StateBundle, mode: ImportMode) => Promise<boolean>
+  ) {
+    super(app);
+    this.bundles = bundles;
+    this.onImport = onImport;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+
+    contentEl.addClass('journal-monitor-import');
+    contentEl.empty();
+
+    // Header
+    const header = contentEl.createDiv({ cls: 'jm-filter-header' });
+    header.createEl('span', { text: 'Import plugin state', cls: 'jm-filter-title' });
+
+    const closeBtn = header.createEl('button', { cls: 'jm-header-btn' });
+    setIcon(closeBtn, 'x');
+    closeBtn.addEventListener('click', () => this.close());
+
+    contentEl.createEl('p', {
+      text: 'Merge adds the backup\'s journals and articles, keeping the newer state of each article. Replace restores its settings and article cache exactly. A snapshot of the current state is taken first either way.',
+      cls: 'jm-prune-desc'
+    });
+
+    for (const file of this.bundles) {
+      const section = contentEl.createDiv({ cls: 'jm-filter-section jm-import-item' });
+
+      const exported = new Date(file.bundle.exportedAt);
+      const title = file.snapshot
+        ? `📸 Snapshot ${file.bundle.reason ? file.bundle.reason.replace(/-/g, ' ') : ''}`
+        : `💾 ${file.path.substring(file.path.lastIndexOf('/') + 1)}`;
+      section.createEl('h4', { text: title });
+      section.createEl('p', {
+        text: `${formatDate(file.bundle.exportedAt)} ${exported.toLocaleTimeString()} · ${describeStateBundle(file.bundle)}`,
+        cls: 'jm-prune-meta'
+      });
+
+      const actions = section.createDiv({ cls: 'jm-import-actions' });
+
+      const mergeBtn = actions.createEl('button', { text: 'Merge', cls: 'jm-btn-primary' });
+      mergeBtn.addEventListener('click', () => this.import(file.bundle, 'merge'));
+
+      const replaceBtn = actions.createEl('button', { text: 'Replace', cls: 'jm-btn-danger' });
+      replaceBtn.addEventListener('click', () => {
+        if (confirm('Replace all settings and cached articles with this backup? A snapshot of the current state is saved first.')) {
+          this.import(file.bundle, 'replace');
+        }
+      });
+    }
+  }
+
+  private async import(bundle: StateBundle, mode: ImportMode) {
+    this.contentEl.querySelectorAll('button').forEach(button => (button as HTMLButtonElement).disabled = true);
+    await this.onImport(bundle, mode);
+    this.close();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,105 @@
+import { App, Modal, setIcon } from 'obsidian';
+import { Article, JournalMonitorSettings } from '../types';
+import { PrunePlan, getStateAgeDays } from '../retention';
+
+// Rows listed per group; the rest are summarised
+const PREVIEW_LIMIT = 100;
+
+export class PruneModal extends Modal {
+  private plan: PrunePlan;
+  private settings: JournalMonitorSettings;
+  private onConfirm: () => Promise<void>;
+
+  constructor(
+    app: App,
+    settings: JournalMonitorSettings,
+    plan: PrunePlan,
+    onConfirm: () => Promise<void>
+  ) {
+    super(app);
+    this.settings = settings;
+    this.plan = plan;
+    this.onConfirm = onConfirm;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+
+    contentEl.addClass('journal-monitor-prune');
+    contentEl.empty();
+
+    // Header
+    const header = contentEl.createDiv({ cls: 'jm-filter-header' });
+    header.createEl('span', { text: 'Prune article cache', cls: 'jm-filter-title' });
+
+    const closeBtn = header.createEl('button', { cls: 'jm-header-btn' });
+    setIcon(closeBtn, 'x');
+    closeBtn.addEventListener('click', () => this.close());
+
+    const total = this.plan.skipped.length + this.plan.viewed.length;
+    if (total === 0) {
+      contentEl.createEl('p', {
+        text: 'Nothing to prune. No skipped or viewed articles are past their retention period.',
+        cls: 'jm-prune-empty'
+      });
+      return;
+    }
+
+    contentEl.createEl('p', {
+      text: 'These articles will be removed from the cache and will not be fetched again. Saved articles and their notes are never removed.',
+      cls: 'jm-prune-desc'
+    });
+
+    this.renderGroup(
+      contentEl,
+      `🙈 Skipped more than ${this.settings.skippedRetentionDays} days ago`,
+      this.plan.skipped
+    );
+    this.renderGroup(
+      contentEl,
+      `👀 Viewed but not saved for more than ${this.settings.viewedRetentionDays} days`,
+      this.plan.viewed
+    );
+
+    // Action buttons
+    const actions = contentEl.createDiv({ cls: 'jm-filter-actions' });
+
+    const pruneBtn = actions.createEl('button', {
+      text: `Remove ${total} articles`,
+      cls: 'jm-btn-primary jm-btn-danger'
+    });
+    pruneBtn.addEventListener('click', async () => {
+      pruneBtn.disabled = true;
+      await this.onConfirm();
+      this.close();
+    });
+  }
+
+  private renderGroup(containerEl: HTMLElement, title: string, articles: Article[]) {
+    if (articles.length === 0) return;
+
+    const section = containerEl.createDiv({ cls: 'jm-filter-section' });
+    section.createEl('h4', { text: `${title} (${articles.length})` });
+
+    const list = section.createEl('ul', { cls: 'jm-prune-list' });
+    for (const article of articles.slice(0, PREVIEW_LIMIT)) {
+      const item = list.createEl('li');
+      item.createSpan({ text: article.title, cls: 'jm-prune-title' });
+      item.createSpan({
+        text: ` — ${article.journal}, ${getStateAgeDays(article)} days`,
+        cls: 'jm-prune-meta'
+      });
+    }
+
+    if (articles.length > PREVIEW_LIMIT) {
+      section.createEl('p', {
+        text: `…and ${articles.length - PREVIEW_LIMIT} more`,
+        cls: 'jm-prune-meta'
+      });
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,102 @@
+import { App, Modal, setIcon } from 'obsidian';
+import { NoteUpdate, diffLines } from '../refresh';
+
+// Unchanged lines shown around each change
+const DIFF_CONTEXT = 1;
+
+export class RefreshModal extends Modal {
+  private updates: NoteUpdate[];
+  private selected: Set<NoteUpdate>;
+  private onApply: (updates: NoteUpdate[]) => Promise<void>;
+
+  constructor(
+    app: App,
+    updates: NoteUpdate[],
+    onApply: (updates: NoteUpdate[]) => Promise<void>
+  ) {
+    super(app);
+    this.updates = updates;
+    this.selected = new Set(updates);
+    this.onApply = onApply;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+
+    contentEl.addClass('journal-monitor-refresh');
+    contentEl.empty();
+
+    // Header
+    const header = contentEl.createDiv({ cls: 'jm-filter-header' });
+    header.createEl('span', { text: `Update ${this.updates.length} saved notes`, cls: 'jm-filter-title' });
+
+    const closeBtn = header.createEl('button', { cls: 'jm-header-btn' });
+    setIcon(closeBtn, 'x');
+    closeBtn.addEventListener('click', () => this.close());
+
+    contentEl.createEl('p', {
+      text: 'Frontmatter and generated sections are rewritten from the latest metadata. Everything under "## Notes" and frontmatter keys you added are kept.',
+      cls: 'jm-prune-desc'
+    });
+
+    for (const update of this.updates) {
+      const section = contentEl.createDiv({ cls: 'jm-filter-section' });
+
+      const label = section.createEl('label', { cls: 'jm-checkbox-label' });
+      const checkbox = label.createEl('input', { type: 'checkbox' });
+      checkbox.checked = true;
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) {
+          this.selected.add(update);
+        } else {
+          this.selected.delete(update);
+        }
+        applyBtn.setText(`Apply ${this.selected.size} updates`);
+        applyBtn.disabled = this.selected.size === 0;
+      });
+      label.appendText(` ${update.file.path}`);
+
+      this.renderDiff(section.createEl('pre', { cls: 'jm-diff' }), update);
+    }
+
+    // Action buttons
+    const actions = contentEl.createDiv({ cls: 'jm-filter-actions' });
+
+    const applyBtn = actions.createEl('button', {
+      text: `Apply ${this.selected.size} updates`,
+      cls: 'jm-btn-primary'
+    });
+    applyBtn.addEventListener('click', async () => {
+      applyBtn.disabled = true;
+      await this.onApply(this.updates.filter(u => this.selected.has(u)));
+      this.close();
+    });
+  }
+
+  /**
+   * Changed lines with a little context; long unchanged runs are collapsed
+   */
+  private renderDiff(pre: HTMLElement, update: NoteUpdate) {
+    const diff = diffLines(update.before, update.after);
+    const near = diff.map((_, i) => diff
+      .slice(Math.max(0, i - DIFF_CONTEXT), i + DIFF_CONTEXT + 1)
+      .some(line => line.type !== 'same'));
+
+    let skipped = false;
+    diff.forEach((line, i) => {
+      if (!near[i]) {
+        if (!skipped) pre.createDiv({ text: '…', cls: 'jm-diff-skip' });
+        skipped = true;
+        return;
+      }
+      skipped = false;
+
+      const prefix = line.type === 'add' ? '+ ' : line.type === 'remove' ? '- ' : '  ';
+      pre.createDiv({ text: prefix + line.text, cls: `jm-diff-${line.type}` });
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
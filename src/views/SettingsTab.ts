@@ -1,7 +1,45 @@
-import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
+import { App, PluginSettingTab, Setting, Notice, normalizePath } from 'obsidian';
 import type JournalMonitorPlugin from '../main';
-import { JournalConfig, DEFAULT_JOURNALS } from '../types';
-import { lookupJournalByIssn } from '../api';
+import { DEFAULT_JOURNALS, FetchRunReport, FolderRule, JournalMonitorSettings, PROVIDER_NAMES, ProviderId } from '../types';
+import { createProvider, toApiError } from '../api';
+import { PruneModal } from './PruneModal';
+import { DEFAULT_NOTE_TEMPLATE } from '../template';
+import { CITATION_FORMATS, DEFAULT_CITEKEY_PATTERN } from '../citation';
+import { BUNDLED_STYLES, BundledStyleId } from '../csl';
+import { DEFAULT_FILENAME_PATTERN, ensureFolder } from '../utils';
+import { median } from '../stats';
+
+// Providers that can follow a journal by ISSN (the rest are preprint servers)
+const JOURNAL_PROVIDERS: ProviderId[] = ['openalex', 'crossref', 'pubmed', 'semanticscholar'];
+
+const ISSN_PATTERN = /^\d{4}-\d{3}[\dX]$/i;
+
+const DEFAULT_TEMPLATE_PATH = 'Templates/Journal Article.md';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A journal is flagged once its last results are this many usual intervals old
+const OVERDUE_FACTOR = 3;
+
+// Intervals between runs with results needed before a journal's usual cadence is known
+const MIN_CADENCE_SAMPLES = 2;
+
+/**
+ * Whole days since a journal last returned results, if that is well past its usual interval
+ * between runs with results; null while on schedule or before its cadence is known.
+ * Incremental fetches return nothing until the journal publishes, so empty runs alone say little.
+ */
+function getOverdueDays(issn: string, runs: FetchRunReport[], now = Date.now()): number | null {
+  // Newest first, like the run history
+  const times = runs
+    .filter(run => run.journals.some(j => j.issn === issn && j.fetched > 0))
+    .map(run => new Date(run.startedAt).getTime());
+  if (times.length < MIN_CADENCE_SAMPLES + 1) return null;
+
+  const usual = median(times.slice(1).map((time, i) => times[i] - time)) || 0;
+  const elapsed = now - times[0];
+  return elapsed > Math.max(usual * OVERDUE_FACTOR, DAY_MS) ? Math.floor(elapsed / DAY_MS) : null;
+}
 
 export class JournalMonitorSettingTab extends PluginSettingTab {
   plugin: JournalMonitorPlugin;
@@ -31,6 +69,77 @@ export class JournalMonitorSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('Filename pattern')
+      .setDesc('Fields: {{author}}, {{year}}, {{month}}, {{title}}, {{titleWords}}, {{journal}}, {{journalTag}}, {{issn}}, {{citekey}}, {{doi-slug}}. Use / for subfolders, e.g. {{year}}/{{citekey}}.')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_FILENAME_PATTERN)
+        .setValue(this.plugin.settings.filenamePattern)
+        .onChange(async (value) => {
+          this.plugin.settings.filenamePattern = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Folder rules')
+      .setDesc('Save matching articles to another folder. Rules are checked in order and the first match wins; folders may use the filename fields.')
+      .addButton(button => button
+        .setButtonText('Add rule')
+        .onClick(async () => {
+          this.plugin.settings.folderRules.push({ match: 'journal', value: '', folder: this.plugin.settings.savedArticlesFolder });
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+    this.plugin.settings.folderRules.forEach((rule, index) => {
+      new Setting(containerEl)
+        .setClass('jm-folder-rule')
+        .addDropdown(dropdown => dropdown
+          .addOption('journal', 'Journal is')
+          .addOption('year', 'Year is')
+          .addOption('keyword', 'Mentions keyword')
+          .setValue(rule.match)
+          .onChange(async (value) => {
+            rule.match = value as FolderRule['match'];
+            await this.plugin.saveSettings();
+          }))
+        .addText(text => text
+          .setPlaceholder('ISSN, year (2020-2022) or keyword')
+          .setValue(rule.value)
+          .onChange(async (value) => {
+            rule.value = value;
+            await this.plugin.saveSettings();
+          }))
+        .addText(text => text
+          .setPlaceholder('Folder')
+          .setValue(rule.folder)
+          .onChange(async (value) => {
+            rule.folder = value;
+            await this.plugin.saveSettings();
+          }))
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('Remove rule')
+          .onClick(async () => {
+            this.plugin.settings.folderRules.splice(index, 1);
+            await this.plugin.saveSettings();
+            this.display();
+          }));
+    });
+
+    new Setting(containerEl)
+      .setName('When a saved note is deleted')
+      .setDesc('Moving or renaming saved notes is always followed. Deleting one can leave the article saved, mark it as not saved, or ask each time.')
+      .addDropdown(dropdown => dropdown
+        .addOption('ask', 'Ask')
+        .addOption('unsave', 'Mark as not saved')
+        .addOption('keep', 'Keep as saved')
+        .setValue(this.plugin.settings.deletedNoteAction)
+        .onChange(async (value) => {
+          this.plugin.settings.deletedNoteAction = value as JournalMonitorSettings['deletedNoteAction'];
+          await this.plugin.saveSettings();
+        }));
+
     new Setting(containerEl)
       .setName('Master index path')
       .setDesc('Path for the master index note')
@@ -53,20 +162,36 @@ export class JournalMonitorSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('Keep journal indices updated')
+      .setDesc('Rewrite a journal\'s index note (statistics, recent issues and saved articles) after fetching new articles or saving one')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.autoUpdateJournalIndices)
+        .onChange(async (value) => {
+          this.plugin.settings.autoUpdateJournalIndices = value;
+          await this.plugin.saveSettings();
+        }))
+      .addButton(button => button
+        .setButtonText('Update all now')
+        .onClick(() => this.plugin.updateAllJournalIndices()));
+
     // API settings section
     containerEl.createEl('h2', { text: '🔌 API Settings' });
 
     new Setting(containerEl)
       .setName('API provider')
-      .setDesc('Which API to use for fetching articles')
-      .addDropdown(dropdown => dropdown
-        .addOption('openalex', 'OpenAlex (recommended)')
-        .addOption('crossref', 'CrossRef')
-        .setValue(this.plugin.settings.apiProvider)
-        .onChange(async (value: 'openalex' | 'crossref') => {
-          this.plugin.settings.apiProvider = value;
-          await this.plugin.saveSettings();
-        }));
+      .setDesc('Default API for journals that do not name their own source')
+      .addDropdown(dropdown => {
+        for (const id of JOURNAL_PROVIDERS) {
+          dropdown.addOption(id, id === 'openalex' ? 'OpenAlex (recommended)' : PROVIDER_NAMES[id]);
+        }
+        dropdown
+          .setValue(this.plugin.settings.apiProvider)
+          .onChange(async (value: ProviderId) => {
+            this.plugin.settings.apiProvider = value;
+            await this.plugin.saveSettings();
+          });
+      });
 
     new Setting(containerEl)
       .setName('Email for API')
@@ -80,6 +205,26 @@ export class JournalMonitorSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('NCBI API key')
+      .setDesc('Optional key for PubMed E-utilities (raises the limit from 3 to 10 requests per second)')
+      .addText(text => text
+        .setValue(this.plugin.settings.ncbiApiKey || '')
+        .onChange(async (value) => {
+          this.plugin.settings.ncbiApiKey = value.trim();
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Semantic Scholar API key')
+      .setDesc('Optional key for Semantic Scholar (avoids the shared rate limit)')
+      .addText(text => text
+        .setValue(this.plugin.settings.semanticScholarApiKey || '')
+        .onChange(async (value) => {
+          this.plugin.settings.semanticScholarApiKey = value.trim();
+          await this.plugin.saveSettings();
+        }));
+
     // Sync settings section
     containerEl.createEl('h2', { text: '🔄 Sync Settings' });
 
@@ -95,23 +240,39 @@ export class JournalMonitorSettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName('Auto-fetch frequency')
-      .setDesc('How often to automatically fetch new articles')
+      .setDesc('How often to automatically fetch new articles; scheduled fetches also run while Obsidian stays open')
       .addDropdown(dropdown => dropdown
         .addOption('startup', 'Only on startup')
         .addOption('daily', 'Daily')
         .addOption('weekly', 'Weekly')
+        .addOption('custom', 'Every N hours')
         .addOption('manual', 'Manual only')
         .setValue(this.plugin.settings.autoFetchFrequency)
-        .onChange(async (value: 'startup' | 'daily' | 'weekly' | 'manual') => {
+        .onChange(async (value: JournalMonitorSettings['autoFetchFrequency']) => {
           this.plugin.settings.autoFetchFrequency = value;
           await this.plugin.saveSettings();
+          this.display(); // Refresh
         }));
 
+    if (this.plugin.settings.autoFetchFrequency === 'custom') {
+      new Setting(containerEl)
+        .setName('Fetch interval (hours)')
+        .setDesc('Hours between background fetches while Obsidian is open')
+        .addSlider(slider => slider
+          .setLimits(1, 72, 1)
+          .setValue(this.plugin.settings.autoFetchIntervalHours)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.autoFetchIntervalHours = value;
+            await this.plugin.saveSettings();
+          }));
+    }
+
     new Setting(containerEl)
-      .setName('Articles per fetch')
-      .setDesc('Maximum articles to fetch per journal per sync')
+      .setName('Articles per request')
+      .setDesc('Page size for each API request; larger pages mean fewer requests')
       .addSlider(slider => slider
-        .setLimits(10, 100, 10)
+        .setLimits(10, 200, 10)
         .setValue(this.plugin.settings.articlesPerFetch)
         .setDynamicTooltip()
         .onChange(async (value) => {
@@ -119,9 +280,21 @@ export class JournalMonitorSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('Max articles per journal')
+      .setDesc('Hard cap on articles fetched per journal per sync, across all pages')
+      .addSlider(slider => slider
+        .setLimits(50, 2000, 50)
+        .setValue(this.plugin.settings.maxArticlesPerJournal)
+        .setDynamicTooltip()
+        .onChange(async (value) => {
+          this.plugin.settings.maxArticlesPerJournal = value;
+          await this.plugin.saveSettings();
+        }));
+
     new Setting(containerEl)
       .setName('Lookback period (days)')
-      .setDesc('How far back to look for new articles')
+      .setDesc('How far back to look on the first fetch of a journal; later fetches only ask for newly indexed articles')
       .addSlider(slider => slider
         .setLimits(7, 90, 7)
         .setValue(this.plugin.settings.lookbackDays)
@@ -134,6 +307,39 @@ export class JournalMonitorSettingTab extends PluginSettingTab {
     // Note template settings
     containerEl.createEl('h2', { text: '📝 Note Templates' });
 
+    new Setting(containerEl)
+      .setName('Template file')
+      .setDesc('Vault path of a note template using {{title}}, {{authors}}, {{abstract}}, {{bibtex}}, {{#if …}} and {{#each …}}. Leave empty for the built-in layout.')
+      .addText(text => text
+        .setPlaceholder('Templates/Journal Article.md')
+        .setValue(this.plugin.settings.noteTemplatePath)
+        .onChange(async (value) => {
+          this.plugin.settings.noteTemplatePath = value;
+          await this.plugin.saveSettings();
+        }))
+      .addButton(button => button
+        .setButtonText('Create template file')
+        .setTooltip('Write the built-in layout to the template path as a starting point')
+        .onClick(async () => {
+          const path = normalizePath(this.plugin.settings.noteTemplatePath.trim() || DEFAULT_TEMPLATE_PATH);
+          if (this.app.vault.getAbstractFileByPath(path)) {
+            new Notice(`${path} already exists`);
+            return;
+          }
+          try {
+            const folderPath = path.substring(0, path.lastIndexOf('/'));
+            if (folderPath) await ensureFolder(this.app, folderPath);
+            await this.app.vault.create(path, DEFAULT_NOTE_TEMPLATE);
+            this.plugin.settings.noteTemplatePath = path;
+            await this.plugin.saveSettings();
+            new Notice(`Created note template: ${path}`);
+            this.display();
+          } catch (error) {
+            console.error('Error creating note template:', error);
+            new Notice('Error creating note template');
+          }
+        }));
+
     new Setting(containerEl)
       .setName('Include abstract')
       .setDesc('Include article abstract in saved notes')
@@ -174,6 +380,85 @@ export class JournalMonitorSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    // Citations section
+    containerEl.createEl('h2', { text: '📚 Citations' });
+
+    new Setting(containerEl)
+      .setName('Citation key pattern')
+      .setDesc('Better BibTeX-style fields: [auth], [authors], [year], [shortyear], [title], [shorttitle], [veryshorttitle], [journal], with :lower, :upper or :capitalize. Duplicates get a, b, c. Keys are kept once assigned.')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_CITEKEY_PATTERN)
+        .setValue(this.plugin.settings.citekeyPattern)
+        .onChange(async (value) => {
+          this.plugin.settings.citekeyPattern = value;
+          await this.plugin.saveSettings();
+        }))
+      .addButton(button => button
+        .setButtonText('Regenerate keys')
+        .setTooltip('Re-key all saved articles with the current pattern')
+        .onClick(() => {
+          if (confirm('Replace the citation keys of all saved articles? Documents citing the old keys will need updating.')) {
+            const count = this.plugin.regenerateCitekeys();
+            new Notice(`Regenerated ${count} citation keys`);
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Bibliography file')
+      .setDesc('Vault path for exported saved articles. RIS and CSL-JSON exports use the same name with .ris / .json.')
+      .addText(text => text
+        .setPlaceholder('Literature/references.bib')
+        .setValue(this.plugin.settings.bibExportPath)
+        .onChange(async (value) => {
+          this.plugin.settings.bibExportPath = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('.bib format')
+      .setDesc('BibTeX for natbib and Pandoc, BibLaTeX for biber')
+      .addDropdown(dropdown => dropdown
+        .addOption('bibtex', CITATION_FORMATS.bibtex.name)
+        .addOption('biblatex', CITATION_FORMATS.biblatex.name)
+        .setValue(this.plugin.settings.bibExportFormat)
+        .onChange(async (value) => {
+          this.plugin.settings.bibExportFormat = value as JournalMonitorSettings['bibExportFormat'];
+          await this.plugin.saveSettings();
+        }))
+      .addButton(button => button
+        .setButtonText('Export now')
+        .onClick(() => this.plugin.exportBibliography(this.plugin.settings.bibExportFormat)));
+
+    new Setting(containerEl)
+      .setName('Citation style')
+      .setDesc('Formatted reference in saved notes ({{citation}}), index files and "Copy citation"')
+      .addDropdown(dropdown => {
+        for (const [id, style] of Object.entries(BUNDLED_STYLES)) {
+          dropdown.addOption(id, style.name);
+        }
+        dropdown
+          .addOption('custom', 'Custom CSL file')
+          .setValue(this.plugin.settings.citationStyle)
+          .onChange(async (value) => {
+            this.plugin.settings.citationStyle = value as BundledStyleId | 'custom';
+            await this.plugin.saveSettings();
+            this.display();
+          });
+      });
+
+    if (this.plugin.settings.citationStyle === 'custom') {
+      new Setting(containerEl)
+        .setName('CSL style file')
+        .setDesc('Vault path of a .csl file, e.g. from the Zotero style repository. Dependent styles are not supported; use their parent style.')
+        .addText(text => text
+          .setPlaceholder('Styles/ieee.csl')
+          .setValue(this.plugin.settings.cslStylePath)
+          .onChange(async (value) => {
+            this.plugin.settings.cslStylePath = value;
+            await this.plugin.saveSettings();
+          }));
+    }
+
     // Notifications
     containerEl.createEl('h2', { text: '🔔 Notifications' });
 
@@ -198,65 +483,177 @@ export class JournalMonitorSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    // Feeds
+    containerEl.createEl('h2', { text: '📰 Feeds' });
+
+    new Setting(containerEl)
+      .setName('Named feeds')
+      .setDesc('Each feed has its own filter and remembers its own place. Create one with "Save as feed" in the filters, switch between them in the browser header, and bind the "Open feed" commands to hotkeys.');
+
+    if (this.plugin.settings.feeds.length === 0) {
+      containerEl.createEl('p', { text: 'No feeds yet.', cls: 'setting-item-description' });
+    }
+
+    for (const feed of this.plugin.settings.feeds) {
+      new Setting(containerEl)
+        .setClass('jm-feed-row')
+        .addText(text => text
+          .setPlaceholder('Feed name')
+          .setValue(feed.name)
+          .onChange(async (value) => {
+            feed.name = value.trim() || feed.name;
+            // Same command id, so this replaces the command under its new name
+            this.plugin.registerFeedCommand(feed);
+            await this.plugin.saveSettings();
+          }))
+        .addButton(button => button
+          .setButtonText('Open')
+          .onClick(() => this.plugin.openFeed(feed.id)))
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('Delete feed')
+          .onClick(async () => {
+            if (!confirm(`Delete the feed "${feed.name}"? Its articles stay in the cache.`)) return;
+            await this.plugin.deleteFeed(feed.id);
+            this.display();
+          }));
+    }
+
     // Journal subscriptions section
     containerEl.createEl('h2', { text: '📚 Journal Subscriptions' });
 
-    // Add new journal
+    // Add new journal or preprint feed
     const addJournalContainer = containerEl.createDiv({ cls: 'jm-add-journal' });
+    let addProvider: ProviderId = this.plugin.settings.apiProvider;
+    let addIdentifier = '';
     
     new Setting(addJournalContainer)
-      .setName('Add journal by ISSN')
-      .setDesc('Look up and add a new journal')
+      .setName('Add journal or feed')
+      .setDesc('Look up a journal by ISSN, add an arXiv category or bioRxiv/medRxiv subject, or paste an RSS/Atom feed URL')
+      .addDropdown(dropdown => {
+        for (const id of Object.keys(PROVIDER_NAMES) as ProviderId[]) {
+          dropdown.addOption(id, PROVIDER_NAMES[id]);
+        }
+        dropdown
+          .setValue(addProvider)
+          .onChange((value: ProviderId) => {
+            addProvider = value;
+            const input = addJournalContainer.querySelector('.jm-issn-input') as HTMLInputElement;
+            if (input) {
+              input.placeholder = createProvider(value, this.plugin.settings).sourceLabel;
+            }
+          });
+      })
       .addText(text => {
-        text.setPlaceholder('Enter ISSN (e.g., 0378-1127)');
+        text.setPlaceholder(createProvider(addProvider, this.plugin.settings).sourceLabel);
         text.inputEl.addClass('jm-issn-input');
+        text.onChange(value => { addIdentifier = value.trim(); });
         return text;
       })
       .addButton(button => button
         .setButtonText('Lookup')
         .onClick(async () => {
-          const input = addJournalContainer.querySelector('.jm-issn-input') as HTMLInputElement;
-          const issn = input?.value.trim();
+          const identifier = addIdentifier;
           
-          if (!issn) {
-            new Notice('Please enter an ISSN');
+          if (!identifier) {
+            new Notice('Please enter an ISSN, category or feed URL');
             return;
           }
           
           // Check if already exists
-          if (this.plugin.settings.journals.some(j => j.issn === issn || j.issnElectronic === issn)) {
+          if (this.plugin.settings.journals.some(j => j.issn === identifier || j.issnElectronic === identifier)) {
             new Notice('Journal already in list');
             return;
           }
           
           new Notice('Looking up journal...');
           
-          const journal = await lookupJournalByIssn(issn);
+          const provider = createProvider(addProvider, this.plugin.settings);
+          const journal = await provider.lookupSource(identifier).catch((error: unknown) => {
+            new Notice(`Lookup failed: ${toApiError(error).message}`);
+            return undefined;
+          });
+          
+          if (journal === undefined) return;
+          
+          if (!journal) {
+            new Notice('Not found. Check the ISSN, category or feed URL.');
+            return;
+          }
+          
+          const existing = this.plugin.settings.journals.find(j =>
+            j.issn === journal.issn || (!!j.issnElectronic && j.issnElectronic === journal.issnElectronic)
+          );
           
-          if (journal) {
-            this.plugin.settings.journals.push(journal);
+          // A feed whose ISSN matches a subscribed journal becomes that journal's source
+          if (existing && journal.feedUrl) {
+            existing.feedUrl = journal.feedUrl;
+            existing.provider = 'rss';
             await this.plugin.saveSettings();
-            new Notice(`Added: ${journal.name}`);
+            new Notice(`Feed attached to ${existing.name}`);
             this.display(); // Refresh
-          } else {
-            new Notice('Journal not found. Check the ISSN.');
+            return;
+          }
+          
+          if (existing) {
+            new Notice('Journal already in list');
+            return;
+          }
+          
+          // ISSN journals follow the default provider unless another one was picked
+          if (!journal.provider && addProvider !== this.plugin.settings.apiProvider) {
+            journal.provider = addProvider;
           }
+          
+          this.plugin.settings.journals.push(journal);
+          await this.plugin.saveSettings();
+          new Notice(`Added: ${journal.name}`);
+          this.display(); // Refresh
         }));
 
     // Journal list
     const journalListEl = containerEl.createDiv({ cls: 'jm-journal-list-settings' });
 
     for (const journal of this.plugin.settings.journals) {
+      // Preprint servers and ISSN-less feeds are tied to their source; ISSN journals can switch API
+      const isFeedOnly = !ISSN_PATTERN.test(journal.issn);
+      const desc = isFeedOnly
+        ? `Source: ${PROVIDER_NAMES[journal.provider || this.plugin.settings.apiProvider]} ${journal.sourceQuery || journal.feedUrl || ''}`
+        : `ISSN: ${journal.issn} | Publisher: ${journal.publisher}`;
+      
       const journalSetting = new Setting(journalListEl)
         .setName(journal.name)
-        .setDesc(`ISSN: ${journal.issn} | Publisher: ${journal.publisher}`)
-        .addToggle(toggle => toggle
-          .setValue(journal.enabled)
-          .setTooltip('Enable/disable this journal')
-          .onChange(async (value) => {
-            journal.enabled = value;
-            await this.plugin.saveSettings();
-          }));
+        .setDesc(desc);
+      
+      if (!isFeedOnly) {
+        journalSetting.addDropdown(dropdown => {
+          dropdown.addOption('', `Default (${PROVIDER_NAMES[this.plugin.settings.apiProvider]})`);
+          for (const id of JOURNAL_PROVIDERS) {
+            dropdown.addOption(id, PROVIDER_NAMES[id]);
+          }
+          if (journal.feedUrl) {
+            dropdown.addOption('rss', PROVIDER_NAMES.rss);
+          }
+          dropdown
+            .setValue(journal.provider || '')
+            .onChange(async (value: ProviderId | '') => {
+              if (value) {
+                journal.provider = value;
+              } else {
+                delete journal.provider;
+              }
+              await this.plugin.saveSettings();
+            });
+        });
+      }
+      
+      journalSetting.addToggle(toggle => toggle
+        .setValue(journal.enabled)
+        .setTooltip('Enable/disable this journal')
+        .onChange(async (value) => {
+          journal.enabled = value;
+          await this.plugin.saveSettings();
+        }));
 
       // Add remove button for non-default journals
       if (!DEFAULT_JOURNALS.some(dj => dj.issn === journal.issn)) {
@@ -273,9 +670,98 @@ export class JournalMonitorSettingTab extends PluginSettingTab {
       }
     }
 
+    // Sync health section
+    containerEl.createEl('h2', { text: '🩺 Sync Health' });
+    this.renderSyncHealth(containerEl.createDiv({ cls: 'jm-sync-health' }));
+
     // Data management section
     containerEl.createEl('h2', { text: '🗃️ Data Management' });
 
+    new Setting(containerEl)
+      .setName('Expire skipped articles after (days)')
+      .setDesc('Remove skipped articles from the cache after this many days. 0 keeps them forever.')
+      .addSlider(slider => slider
+        .setLimits(0, 365, 5)
+        .setValue(this.plugin.settings.skippedRetentionDays)
+        .setDynamicTooltip()
+        .onChange(async (value) => {
+          this.plugin.settings.skippedRetentionDays = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Expire viewed articles after (days)')
+      .setDesc('Remove articles that were viewed but never saved after this many days. 0 keeps them forever. Saved articles are never removed.')
+      .addSlider(slider => slider
+        .setLimits(0, 365, 5)
+        .setValue(this.plugin.settings.viewedRetentionDays)
+        .setDynamicTooltip()
+        .onChange(async (value) => {
+          this.plugin.settings.viewedRetentionDays = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Prune now')
+      .setDesc('Preview and remove the articles past their retention period. Expired articles are also pruned after each fetch; pruned DOIs are remembered so they are not fetched again.')
+      .addButton(button => button
+        .setButtonText('Preview')
+        .onClick(() => {
+          const plan = this.plugin.getPrunePlan();
+          new PruneModal(this.app, this.plugin.settings, plan, async () => {
+            const removed = this.plugin.applyRetention(plan);
+            await this.plugin.flushPluginData();
+            this.plugin.updateRibbonBadge();
+            new Notice(`Removed ${removed} articles from the cache`);
+            this.display();
+          }).open();
+        }));
+
+    new Setting(containerEl)
+      .setName('Refresh saved notes')
+      .setDesc('Re-fetch metadata for saved articles and preview the changes to their notes. Your "## Notes" section is never changed.')
+      .addButton(button => button
+        .setButtonText('Refresh')
+        .onClick(() => this.plugin.refreshSavedNotes()));
+
+    new Setting(containerEl)
+      .setName('Existing library')
+      .setDesc('Vault path of a .bib, .ris or CSL-JSON export from your reference manager (e.g. a Better BibTeX auto-export). Import marks its papers, and vault notes with a "doi" in their frontmatter, as saved so they are not shown or saved again.')
+      .addText(text => text
+        .setPlaceholder('Literature/My Library.bib')
+        .setValue(this.plugin.settings.libraryPath)
+        .onChange(async (value) => {
+          this.plugin.settings.libraryPath = value;
+          await this.plugin.saveSettings();
+        }))
+      .addButton(button => button
+        .setButtonText('Import')
+        .onClick(async () => {
+          await this.plugin.importExistingLibrary();
+          this.display();
+        }));
+
+    new Setting(containerEl)
+      .setName('Backup folder')
+      .setDesc('Where "Export" writes state bundles: journals, filters, article states, statistics and fetch history. API keys are not included.')
+      .addText(text => text
+        .setPlaceholder('Literature/Journal Monitor Backups')
+        .setValue(this.plugin.settings.backupFolder)
+        .onChange(async (value) => {
+          this.plugin.settings.backupFolder = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Back up or restore')
+      .setDesc('Import lists the bundles in the backup folder and the snapshots taken automatically before clearing the cache, resetting settings or importing.')
+      .addButton(button => button
+        .setButtonText('Export')
+        .onClick(() => this.plugin.exportState()))
+      .addButton(button => button
+        .setButtonText('Import')
+        .onClick(() => this.plugin.openImportModal()));
+
     new Setting(containerEl)
       .setName('Clear article cache')
       .setDesc('Remove all fetched articles (saved notes are not affected)')
@@ -283,16 +769,24 @@ export class JournalMonitorSettingTab extends PluginSettingTab {
         .setButtonText('Clear Cache')
         .setWarning()
         .onClick(async () => {
-          if (confirm('Clear all cached articles? This cannot be undone.')) {
-            this.plugin.data.articles = {};
-            this.plugin.data.browsePosition = { currentDoi: null, filterHash: '', scrollIndex: 0 };
-            this.plugin.data.statistics = { totalFetched: 0, totalSaved: 0, totalSkipped: 0, byJournal: {} };
-            await this.plugin.saveData(this.plugin.data);
-            this.plugin.updateRibbonBadge();
-            new Notice('Cache cleared');
+          if (confirm('Clear all cached articles? A snapshot is saved first and can be restored with "Import".')) {
+            if (await this.plugin.clearArticleCache()) {
+              this.plugin.updateRibbonBadge();
+              new Notice('Cache cleared');
+            }
           }
         }));
 
+    new Setting(containerEl)
+      .setName('Reset sync watermarks')
+      .setDesc('Forget when each journal was last fetched; the next fetch re-queries the full lookback period')
+      .addButton(button => button
+        .setButtonText('Reset')
+        .onClick(async () => {
+          await this.plugin.resetSyncWatermarks();
+          new Notice('Sync watermarks reset');
+        }));
+
     new Setting(containerEl)
       .setName('Reset to defaults')
       .setDesc('Reset all settings to default values')
@@ -300,10 +794,11 @@ export class JournalMonitorSettingTab extends PluginSettingTab {
         .setButtonText('Reset')
         .setWarning()
         .onClick(async () => {
-          if (confirm('Reset all settings to defaults? This cannot be undone.')) {
-            await this.plugin.resetSettings();
-            this.display(); // Refresh
-            new Notice('Settings reset to defaults');
+          if (confirm('Reset all settings to defaults? A snapshot is saved first and can be restored with "Import".')) {
+            if (await this.plugin.resetSettings()) {
+              this.display(); // Refresh
+              new Notice('Settings reset to defaults');
+            }
           }
         }));
 
@@ -316,7 +811,7 @@ export class JournalMonitorSettingTab extends PluginSettingTab {
     const unseenCount = Object.values(this.plugin.data.articles)
       .filter(a => a.state === 'unseen').length;
     
-    statsEl.createEl('p', { text: `Total articles fetched: ${stats.totalFetched}` });
+    statsEl.createEl('p', { text: `Articles in cache: ${stats.totalFetched}` });
     statsEl.createEl('p', { text: `Unseen articles: ${unseenCount}` });
     statsEl.createEl('p', { text: `Articles saved: ${stats.totalSaved}` });
     statsEl.createEl('p', { text: `Articles skipped: ${stats.totalSkipped}` });
@@ -326,5 +821,82 @@ export class JournalMonitorSettingTab extends PluginSettingTab {
         text: `Last fetch: ${new Date(this.plugin.data.lastFetch).toLocaleString()}` 
       });
     }
+
+    new Setting(containerEl)
+      .setName('Statistics dashboard')
+      .setDesc('Charts of articles fetched, triaged and saved per week, time to triage, backlog, save rates per journal and top keywords')
+      .addButton(button => button
+        .setButtonText('Open dashboard')
+        .onClick(() => this.plugin.openStatsView()));
+  }
+
+  /**
+   * Per-journal results of recent fetch runs, with a retry action for failures
+   */
+  private renderSyncHealth(containerEl: HTMLElement) {
+    const runs = this.plugin.data.runs;
+    const lastRun = runs[0];
+
+    if (!lastRun) {
+      containerEl.createEl('p', { text: 'No fetch runs recorded yet.', cls: 'jm-sync-empty' });
+      return;
+    }
+
+    const added = lastRun.journals.reduce((sum, j) => sum + j.added, 0);
+    const reports = this.plugin.getLatestJournalReports();
+    const failedCount = reports.filter(j => j.failed).length;
+    const seconds = Math.round((new Date(lastRun.finishedAt).getTime() - new Date(lastRun.startedAt).getTime()) / 1000);
+    containerEl.createEl('p', {
+      text: `Last run: ${new Date(lastRun.startedAt).toLocaleString()} (${seconds}s) · ` +
+        `${lastRun.journals.length} journals · ${added} new · ${lastRun.journals.filter(j => j.failed).length} failed`,
+    });
+
+    const table = containerEl.createEl('table', { cls: 'jm-sync-table' });
+    const headRow = table.createEl('thead').createEl('tr');
+    for (const heading of ['Journal', 'Source', 'Fetched', 'New', 'Duplicate', 'Last success', 'Status']) {
+      headRow.createEl('th', { text: heading });
+    }
+
+    const body = table.createEl('tbody');
+    for (const report of reports) {
+      const row = body.createEl('tr');
+      row.createEl('td', { text: report.name });
+      row.createEl('td', { text: PROVIDER_NAMES[report.provider] });
+      row.createEl('td', { text: String(report.fetched) });
+      row.createEl('td', { text: String(report.added) });
+      row.createEl('td', { text: String(report.duplicates) });
+
+      const lastSuccess = this.plugin.data.journalSync[report.issn]?.lastSuccessfulFetch;
+      row.createEl('td', { text: lastSuccess ? new Date(lastSuccess).toLocaleDateString() : 'never' });
+
+      const overdueDays = getOverdueDays(report.issn, runs);
+
+      const statusCell = row.createEl('td');
+      if (report.failed) {
+        statusCell.setText(`✗ ${report.error || 'Failed'}`);
+        row.addClass('jm-sync-failed');
+      } else if (report.truncated) {
+        statusCell.setText(`⚠ Capped: ${report.error}`);
+        row.addClass('jm-sync-warning');
+      } else if (overdueDays !== null) {
+        statusCell.setText(`⚠ No results for ${overdueDays} days, longer than usual`);
+        row.addClass('jm-sync-warning');
+      } else {
+        statusCell.setText('✓ OK');
+      }
+    }
+
+    new Setting(containerEl)
+      .setName('Retry failed journals')
+      .setDesc(failedCount > 0
+        ? `Fetch again the ${failedCount} journal(s) whose last fetch failed`
+        : 'No journals failed in their last fetch')
+      .addButton(button => button
+        .setButtonText('Retry')
+        .setDisabled(failedCount === 0)
+        .onClick(async () => {
+          await this.plugin.retryFailedJournals();
+          this.display(); // Refresh
+        }));
   }
 }
@@ -0,0 +1,156 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import type JournalMonitorPlugin from '../main';
+import { Article, DATA_CHANGED_EVENT } from '../types';
+import { getBacklogSeries, getJournalSaveRates, getWeeklyStats } from '../stats';
+import { getTopTerms } from '../relevance';
+import { renderBarChart, renderHorizontalBars, renderLineChart } from '../charts';
+
+export const VIEW_TYPE_STATS = 'journal-monitor-stats';
+
+// Periods offered in the header, in weeks
+const PERIODS: Record<string, string> = {
+  '12': 'Last 12 weeks',
+  '26': 'Last 6 months',
+  '52': 'Last year',
+};
+
+// Keywords listed for saved and for skipped articles
+const TOP_TERM_COUNT = 10;
+
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * Dashboard of reading activity: weekly throughput, triage delay, backlog, save rates
+ * per journal and the keywords of saved versus skipped articles
+ */
+export class StatsView extends ItemView {
+  private plugin: JournalMonitorPlugin;
+  private weeks = 12;
+
+  constructor(leaf: WorkspaceLeaf, plugin: JournalMonitorPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_STATS;
+  }
+
+  getDisplayText(): string {
+    return 'Journal statistics';
+  }
+
+  getIcon(): string {
+    return 'journal-monitor';
+  }
+
+  async onOpen() {
+    this.render();
+    this.registerEvent(this.plugin.events.on(DATA_CHANGED_EVENT, () => this.render()));
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('jm-stats-view');
+
+    const { data, settings } = this.plugin;
+    const articles = Object.values(data.articles);
+
+    // Header
+    const header = contentEl.createDiv({ cls: 'jm-stats-header' });
+    header.createEl('h2', { text: '📊 Reading statistics' });
+    const periodSelect = header.createEl('select', { cls: 'dropdown' });
+    for (const [weeks, label] of Object.entries(PERIODS)) {
+      periodSelect.createEl('option', { text: label, value: weeks });
+    }
+    periodSelect.value = String(this.weeks);
+    periodSelect.addEventListener('change', () => {
+      this.weeks = parseInt(periodSelect.value, 10);
+      this.render();
+    });
+
+    // Totals
+    const unseen = articles.filter(a => a.state === 'unseen').length;
+    const triaged = data.statistics.totalSaved + data.statistics.totalSkipped;
+    const totals = contentEl.createDiv({ cls: 'jm-stats-totals' });
+    const addTotal = (value: string, label: string) => {
+      const total = totals.createDiv({ cls: 'jm-stats-total' });
+      total.createDiv({ text: value, cls: 'jm-stats-total-value' });
+      total.createDiv({ text: label, cls: 'jm-stats-total-label' });
+    };
+    addTotal(String(data.statistics.totalFetched), 'In cache');
+    addTotal(String(unseen), 'Unseen');
+    addTotal(String(data.statistics.totalSaved), 'Saved');
+    addTotal(String(data.statistics.totalSkipped), 'Skipped');
+    addTotal(triaged > 0 ? `${Math.round(data.statistics.totalSaved / triaged * 100)}%` : '-', 'Save rate');
+
+    if (articles.length === 0 && Object.keys(data.daily).length === 0) {
+      contentEl.createEl('p', {
+        text: 'No activity yet. Fetch and browse some articles to see statistics here.',
+        cls: 'jm-stats-empty'
+      });
+      return;
+    }
+
+    const weekly = getWeeklyStats(data.daily, this.weeks);
+    const weekLabels = weekly.map(week => formatDay(week.week));
+
+    this.createSection('Articles per week');
+    renderBarChart(contentEl, weekLabels, [
+      { label: 'Fetched', values: weekly.map(week => week.fetched), cls: 'jm-series-fetched' },
+      { label: 'Triaged', values: weekly.map(week => week.triaged), cls: 'jm-series-triaged' },
+      { label: 'Saved', values: weekly.map(week => week.saved), cls: 'jm-series-saved' },
+    ], 'Articles fetched, triaged and saved per week');
+
+    this.createSection('Days from publication to triage (weekly median)');
+    renderLineChart(contentEl, weekLabels, [
+      { label: 'Median days', values: weekly.map(week => week.medianTriageLag), cls: 'jm-series-lag' },
+    ], 'Median days from publication to triage per week');
+
+    const backlog = getBacklogSeries(data.daily, this.weeks * 7);
+    this.createSection('Unseen backlog');
+    renderLineChart(contentEl, backlog.map(point => formatDay(point.day)), [
+      { label: 'Unseen', values: backlog.map(point => point.backlog), cls: 'jm-series-backlog' },
+    ], 'Unseen articles at the end of each day');
+
+    const rates = getJournalSaveRates(data.statistics, settings.journals);
+    this.createSection('Save rate per journal');
+    if (rates.length === 0) {
+      contentEl.createEl('p', { text: 'No saved or skipped articles yet', cls: 'jm-stats-empty' });
+    } else {
+      renderHorizontalBars(contentEl, rates.map(rate => ({
+        label: rate.name,
+        value: rate.rate,
+        text: `${Math.round(rate.rate * 100)}% (${rate.saved}/${rate.saved + rate.skipped})`,
+      })), 'jm-series-saved', 'Share of triaged articles saved, per journal', 1);
+    }
+
+    this.createSection('Top keywords');
+    const columns = contentEl.createDiv({ cls: 'jm-stats-columns' });
+    this.renderTerms(columns, 'Saved', articles.filter(a => a.state === 'saved'), 'jm-series-saved');
+    this.renderTerms(columns, 'Skipped', articles.filter(a => a.state === 'skipped'), 'jm-series-skipped');
+  }
+
+  private createSection(title: string) {
+    this.contentEl.createEl('h3', { text: title, cls: 'jm-stats-section' });
+  }
+
+  private renderTerms(parent: HTMLElement, title: string, articles: Article[], cls: string) {
+    const column = parent.createDiv({ cls: 'jm-stats-column' });
+    column.createEl('h4', { text: `${title} (${articles.length})` });
+
+    const terms = getTopTerms(articles, TOP_TERM_COUNT);
+    if (terms.length === 0) {
+      column.createEl('p', { text: 'No articles', cls: 'jm-stats-empty' });
+      return;
+    }
+    renderHorizontalBars(column, terms.map(({ term, count }) => ({
+      label: term,
+      value: count,
+      text: `${Math.round(count / articles.length * 100)}%`,
+    })), cls, `Most common keywords of ${title.toLowerCase()} articles`);
+  }
+}